@@ -1,5 +1,5 @@
 import { ViessmannClient } from "./src/client";
-import { ViessmannConfig, AuthToken, Installation, Feature } from "./src/types";
+import { getPropertyValue, getUnit } from "./src/features";
 import * as dotenv from "dotenv";
 import * as path from "path";
 
@@ -40,7 +40,7 @@ async function main() {
 
     // Jetzt können Sie die API verwenden
     console.log('📡 Lade Installationen...\n');
-    const installations = await client.getInstallations();
+    const { data: installations } = await client.getInstallations(true);
 
     console.log(`✅ ${installations.length} Installation(en) gefunden:\n`);
     
@@ -48,18 +48,18 @@ async function main() {
       console.log(`📍 Installation ${index + 1}:`);
       console.log(`   ID: ${installation.id}`);
       console.log(`   Beschreibung: ${installation.description}`);
-      console.log(`   Adresse: ${installation.address.street}, ${installation.address.postalCode} ${installation.address.city}`);
+      console.log(`   Adresse: ${installation.address.street}, ${installation.address.zip} ${installation.address.city}`);
       console.log(`   Gateways: ${installation.gateways?.length || 0}\n`);
     });
 
     // Beispiel: Features abrufen (falls vorhanden)
     if (installations[0]?.gateways?.[0]?.devices?.[0]) {
       const installation = installations[0];
-      const gateway = installation.gateways[0];
-      const device = gateway.devices[0];
+      const gateway = installation.gateways![0];
+      const device = gateway.devices![0];
 
       console.log('📊 Lade Features...\n');
-      const features = await client.getFeatures(
+      const { data: features } = await client.getDeviceFeatures(
         installation.id,
         gateway.serial,
         device.id
@@ -75,8 +75,7 @@ async function main() {
       if (heatingFeatures.length > 0) {
         console.log('\n🔥 Heizungs-Features:');
         heatingFeatures.forEach(feature => {
-          const value = feature.properties.value;
-          console.log(`   ${feature.feature}: ${value?.value}${value?.unit || ''}`);
+          console.log(`   ${feature.feature}: ${getPropertyValue(feature)}${getUnit(feature) || ''}`);
         });
       }
     }
@@ -0,0 +1,22 @@
+import { MockViessmannServer } from './src/mock-server';
+
+/**
+ * Lokaler Mock-Server für die Entwicklung: IoT-v2-API und IAM-Endpunkte mit den Beispieldaten
+ * aus DEFAULT_FIXTURE. Port über MOCK_PORT (Standard: 8080).
+ */
+async function main() {
+  const server = new MockViessmannServer({ port: Number(process.env.MOCK_PORT) || 8080 });
+  await server.start();
+  const token = server.issueToken();
+
+  console.log(`🧪 Mock Viessmann API läuft auf ${server.url}\n`);
+  console.log(`   VIESSMANN_API_URL=${server.url}`);
+  console.log(`   VIESSMANN_IAM_URL=${server.iamUrl}`);
+  console.log(`   Access Token für eigene Aufrufe: ${token.access_token}\n`);
+
+  process.once('SIGINT', () => {
+    server.stop().then(() => process.exit(0));
+  });
+}
+
+main();
@@ -0,0 +1,190 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { ViessmannClient } from './client';
+import { ViessmannConfig } from './types';
+import { TokenStore, FileTokenStore, isStoredTokenExpired } from './storage';
+import { AuthenticationError, ValidationError } from './errors';
+
+export interface AccountManagerOptions {
+  /**
+   * Config shared by all accounts (clientId, rateLimit, cache, ...). Credentials of one
+   * user are not allowed here, they would log every account without a token in as that user.
+   */
+  config: Omit<ViessmannConfig, 'tokenStore' | 'accessToken' | 'refreshToken' | 'username' | 'password'>;
+  /** Directory for the default per-account token files (default: working directory) */
+  directory?: string;
+  /** Create the token store for an account, e.g. backed by a database */
+  storeFactory?: (label: string) => TokenStore;
+}
+
+export interface AccountStatus {
+  label: string;
+  hasToken: boolean;
+  hasRefreshToken: boolean;
+  expired: boolean;
+  expiresAt?: Date;
+}
+
+export interface AccountRefreshResult {
+  label: string;
+  success: boolean;
+  error?: Error;
+}
+
+interface Account {
+  store: TokenStore;
+  config: Partial<ViessmannConfig>;
+  client?: ViessmannClient;
+}
+
+const LABEL_PATTERN = /^[A-Za-z0-9_-]+$/;
+const TOKEN_FILE_PATTERN = /^\.viessmann-token\.([A-Za-z0-9_-]+)\.json$/;
+
+/**
+ * Manages tokens and clients for several Viessmann users, each under its own label
+ */
+export class AccountManager {
+  private options: AccountManagerOptions;
+  private directory: string;
+  private accounts = new Map<string, Account>();
+
+  constructor(options: AccountManagerOptions) {
+    this.options = options;
+    this.directory = options.directory || process.cwd();
+  }
+
+  /**
+   * Register an account, optionally with its own config overrides (e.g. a different clientId)
+   */
+  addAccount(label: string, config: Partial<ViessmannConfig> = {}): void {
+    if (!LABEL_PATTERN.test(label)) {
+      throw new ValidationError(`Invalid account label "${label}": use letters, digits, "-" and "_"`);
+    }
+    if (this.accounts.has(label)) {
+      throw new ValidationError(`Account "${label}" already exists`);
+    }
+    this.accounts.set(label, { store: this.createStore(label), config });
+  }
+
+  /**
+   * Register all accounts that have a token file in the directory.
+   * Only applies to the default file stores.
+   */
+  async loadAccounts(): Promise<string[]> {
+    if (this.options.storeFactory) {
+      return this.getLabels();
+    }
+    const files = await fs.promises.readdir(this.directory).catch(() => [] as string[]);
+    for (const file of files) {
+      const match = TOKEN_FILE_PATTERN.exec(file);
+      if (match && !this.accounts.has(match[1])) {
+        this.addAccount(match[1]);
+      }
+    }
+    return this.getLabels();
+  }
+
+  /**
+   * Get the labels of all registered accounts
+   */
+  getLabels(): string[] {
+    return Array.from(this.accounts.keys());
+  }
+
+  /**
+   * Get the client bound to an account. The client only ever reads and writes that account's token,
+   * without one it fails with "not logged in" instead of falling back to a shared password grant.
+   */
+  getClient(label: string): ViessmannClient {
+    const account = this.getAccount(label);
+    if (!account.client) {
+      // The type already forbids them, strip them for JS callers and spread configs too
+      const { username, password, accessToken, refreshToken, tokenStore, ...shared } = this.options.config as ViessmannConfig;
+      account.client = new ViessmannClient({
+        ...shared,
+        ...account.config,
+        tokenStore: account.store
+      });
+    }
+    return account.client;
+  }
+
+  /**
+   * Log an account in with the browser flow
+   */
+  async login(label: string): Promise<void> {
+    await this.getClient(label).authenticateWithBrowser();
+  }
+
+  /**
+   * Delete the stored token of an account and forget it
+   */
+  async removeAccount(label: string): Promise<void> {
+    const account = this.getAccount(label);
+    await account.store.deleteToken();
+    this.accounts.delete(label);
+  }
+
+  /**
+   * List all accounts with their token status
+   */
+  async listAccounts(): Promise<AccountStatus[]> {
+    return Promise.all(this.getLabels().map(label => this.getStatus(label)));
+  }
+
+  /**
+   * Get the token status of an account
+   */
+  async getStatus(label: string): Promise<AccountStatus> {
+    const token = await this.getAccount(label).store.loadToken();
+    if (!token) {
+      return { label, hasToken: false, hasRefreshToken: false, expired: true };
+    }
+    return {
+      label,
+      hasToken: true,
+      hasRefreshToken: !!token.refresh_token,
+      expired: isStoredTokenExpired(token),
+      expiresAt: new Date(token.created_at + token.expires_in * 1000)
+    };
+  }
+
+  /**
+   * Refresh the token of one account
+   */
+  async refresh(label: string): Promise<void> {
+    const client = this.getClient(label);
+    if (!(await client.restoreToken())) {
+      throw new AuthenticationError(`Account "${label}" has no stored token`);
+    }
+    await client.refreshToken();
+  }
+
+  /**
+   * Refresh all accounts independently; a failure for one account doesn't affect the others
+   */
+  async refreshAll(): Promise<AccountRefreshResult[]> {
+    const labels = this.getLabels();
+    const results = await Promise.allSettled(labels.map(label => this.refresh(label)));
+    return results.map((result, index) => ({
+      label: labels[index],
+      success: result.status === 'fulfilled',
+      error: result.status === 'rejected' ? result.reason : undefined
+    }));
+  }
+
+  private getAccount(label: string): Account {
+    const account = this.accounts.get(label);
+    if (!account) {
+      throw new ValidationError(`Unknown account "${label}"`);
+    }
+    return account;
+  }
+
+  private createStore(label: string): TokenStore {
+    if (this.options.storeFactory) {
+      return this.options.storeFactory(label);
+    }
+    return new FileTokenStore(path.join(this.directory, `.viessmann-token.${label}.json`));
+  }
+}
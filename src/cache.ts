@@ -0,0 +1,223 @@
+import { Feature } from './types';
+
+/**
+ * TTL rule for features whose name matches a pattern. String patterns use
+ * `*` as wildcard, e.g. `heating.compressors.*.statistics.*`.
+ */
+export interface CacheTtlRule {
+  pattern: string | RegExp;
+  ttl: number;
+}
+
+export interface CacheOptions {
+  /** TTL in ms for features not matched by any rule (default 60000) */
+  defaultTtl?: number;
+  /** TTL rules, first match wins */
+  ttls?: CacheTtlRule[];
+}
+
+interface CachedFeature {
+  feature: Feature;
+  fetchedAt: number;
+  ttl: number;
+  etag?: string;
+}
+
+interface DeviceEntry {
+  features: Map<string, CachedFeature>;
+  /** Set when an unfiltered bulk request filled this entry */
+  bulk?: {
+    fetchedAt: number;
+    etag?: string;
+  };
+}
+
+/**
+ * Convert a wildcard pattern into an anchored regular expression
+ */
+export function patternToRegExp(pattern: string | RegExp): RegExp {
+  if (pattern instanceof RegExp) return pattern;
+  const escaped = pattern.replace(/[.+?^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*');
+  return new RegExp(`^${escaped}$`);
+}
+
+/**
+ * Features affected by a command on the given feature: everything in the same
+ * circuit/compressor (`heating.circuits.0.*`) or group (`heating.dhw.*`)
+ */
+function affectedPrefix(featureName: string): string {
+  const parts = featureName.split('.');
+  const indexed = parts.findIndex(part => /^\d+$/.test(part));
+  const length = indexed >= 0 ? indexed + 1 : Math.min(2, parts.length);
+  return parts.slice(0, length).join('.');
+}
+
+/**
+ * In-memory cache for feature responses, keyed by installation/gateway/device
+ */
+export class FeatureCache {
+  private defaultTtl: number;
+  private rules: Array<{ pattern: RegExp; ttl: number }>;
+  private devices = new Map<string, DeviceEntry>();
+
+  constructor(options: CacheOptions = {}) {
+    this.defaultTtl = options.defaultTtl ?? 60 * 1000;
+    this.rules = (options.ttls || []).map(rule => ({
+      pattern: patternToRegExp(rule.pattern),
+      ttl: rule.ttl
+    }));
+  }
+
+  /**
+   * Build the cache key for a device
+   */
+  static key(installationId: number, gatewaySerial: string, deviceId: string): string {
+    return `${installationId}/${gatewaySerial}/${deviceId}`;
+  }
+
+  /**
+   * TTL that applies to a feature
+   */
+  ttlFor(featureName: string): number {
+    const rule = this.rules.find(r => r.pattern.test(featureName));
+    return rule ? rule.ttl : this.defaultTtl;
+  }
+
+  /**
+   * Get a fresh cached feature
+   */
+  getFeature(key: string, featureName: string): Feature | undefined {
+    const cached = this.devices.get(key)?.features.get(featureName);
+    return cached && this.isFresh(cached) ? cached.feature : undefined;
+  }
+
+  /**
+   * ETag of a cached (possibly stale) feature, for conditional requests
+   */
+  getFeatureETag(key: string, featureName: string): string | undefined {
+    return this.devices.get(key)?.features.get(featureName)?.etag;
+  }
+
+  /**
+   * Check if a fresh bulk response proves that a feature doesn't exist
+   */
+  isKnownMissing(key: string, featureName: string): boolean {
+    const entry = this.devices.get(key);
+    if (!entry?.bulk || entry.features.has(featureName)) return false;
+    return Date.now() - entry.bulk.fetchedAt < this.ttlFor(featureName);
+  }
+
+  /**
+   * Get all features of a device if a bulk response is cached and every feature is fresh
+   */
+  getAll(key: string): Feature[] | undefined {
+    const entry = this.devices.get(key);
+    if (!entry?.bulk) return undefined;
+    const cached = Array.from(entry.features.values());
+    if (!cached.every(c => this.isFresh(c))) return undefined;
+    return cached.map(c => c.feature);
+  }
+
+  /**
+   * ETag of the cached bulk response, for conditional requests
+   */
+  getBulkETag(key: string): string | undefined {
+    return this.devices.get(key)?.bulk?.etag;
+  }
+
+  /**
+   * Store a single feature
+   */
+  setFeature(key: string, feature: Feature, etag?: string): void {
+    this.entry(key).features.set(feature.feature, {
+      feature,
+      fetchedAt: Date.now(),
+      ttl: this.ttlFor(feature.feature),
+      etag
+    });
+  }
+
+  /**
+   * Store the features of a bulk response. Only unfiltered responses
+   * are complete and can answer single-feature lookups.
+   */
+  setFeatures(key: string, features: Feature[], complete: boolean, etag?: string): void {
+    const entry = this.entry(key);
+    if (complete) {
+      entry.features.clear();
+      entry.bulk = { fetchedAt: Date.now(), etag };
+    }
+    for (const feature of features) {
+      this.setFeature(key, feature);
+    }
+  }
+
+  /**
+   * Mark cached data as fresh again after a 304 Not Modified
+   */
+  touch(key: string, featureName?: string): void {
+    const entry = this.devices.get(key);
+    if (!entry) return;
+    const now = Date.now();
+    if (featureName) {
+      const cached = entry.features.get(featureName);
+      if (cached) cached.fetchedAt = now;
+      return;
+    }
+    if (entry.bulk) entry.bulk.fetchedAt = now;
+    entry.features.forEach(cached => {
+      cached.fetchedAt = now;
+    });
+  }
+
+  /**
+   * Get a cached feature regardless of its age
+   */
+  peekFeature(key: string, featureName: string): Feature | undefined {
+    return this.devices.get(key)?.features.get(featureName)?.feature;
+  }
+
+  /**
+   * Drop all features affected by a command on the given feature
+   */
+  invalidateAfterCommand(key: string, featureName: string): void {
+    const entry = this.devices.get(key);
+    if (!entry) return;
+    const prefix = affectedPrefix(featureName);
+    for (const name of Array.from(entry.features.keys())) {
+      if (name === featureName || name === prefix || name.startsWith(`${prefix}.`)) {
+        entry.features.delete(name);
+      }
+    }
+    // The bulk response no longer reflects the device state
+    delete entry.bulk;
+  }
+
+  /**
+   * Drop cached entries whose key starts with the given prefix, or everything
+   */
+  clear(keyPrefix?: string): void {
+    if (keyPrefix === undefined) {
+      this.devices.clear();
+      return;
+    }
+    for (const key of Array.from(this.devices.keys())) {
+      if (key === keyPrefix || key.startsWith(`${keyPrefix}/`)) {
+        this.devices.delete(key);
+      }
+    }
+  }
+
+  private entry(key: string): DeviceEntry {
+    let entry = this.devices.get(key);
+    if (!entry) {
+      entry = { features: new Map() };
+      this.devices.set(key, entry);
+    }
+    return entry;
+  }
+
+  private isFresh(cached: CachedFeature): boolean {
+    return Date.now() - cached.fetchedAt < cached.ttl;
+  }
+}
@@ -0,0 +1,211 @@
+import type { HeatPump } from './heatpump';
+import { CommandResponse, Feature, WeeklySchedule } from './types';
+import { getBoolean, getNumber, getProperty, getString } from './features';
+import { findParamName } from './commands';
+import type { Schedule } from './schedule';
+
+export type HeatingProgram = 'normal' | 'reduced' | 'comfort' | 'eco' | string;
+
+export interface HeatingCurve {
+  slope?: number;
+  shift?: number;
+}
+
+export interface ProgramState {
+  name: HeatingProgram;
+  active?: boolean;
+  temperature?: number;
+}
+
+/**
+ * Programs that exist as `operating.programs.<name>` but aren't temperature programs
+ */
+const NON_TEMPERATURE_PROGRAMS = new Set(['active', 'holiday', 'holidayAtHome', 'standby', 'summerEco', 'forcedLastFromSchedule']);
+
+/**
+ * One heating circuit (`heating.circuits.N`) of a heat pump
+ */
+export class HeatingCircuit {
+  constructor(
+    readonly heatPump: HeatPump,
+    readonly index: number
+  ) {}
+
+  /**
+   * Full feature name for a path below this circuit
+   */
+  featureName(path = ''): string {
+    return path ? `heating.circuits.${this.index}.${path}` : `heating.circuits.${this.index}`;
+  }
+
+  private feature(path = ''): Feature | undefined {
+    return this.heatPump.getFeature(this.featureName(path));
+  }
+
+  get name(): string | undefined {
+    return getString(this.feature(), 'name');
+  }
+
+  get active(): boolean | undefined {
+    return getBoolean(this.feature(), 'active');
+  }
+
+  /**
+   * Active operating mode, e.g. `heating`, `dhwAndHeating`, `standby`
+   */
+  get mode(): string | undefined {
+    return getString(this.feature('operating.modes.active'));
+  }
+
+  /**
+   * Modes accepted by `setMode`
+   */
+  get availableModes(): string[] {
+    return this.feature('operating.modes.active')?.commands?.setMode?.params?.mode?.constraints?.enum || [];
+  }
+
+  /**
+   * Active program, e.g. `normal`, `reduced`, `comfort`
+   */
+  get program(): HeatingProgram | undefined {
+    return getString(this.feature('operating.programs.active'));
+  }
+
+  /**
+   * Names of the temperature programs this circuit supports
+   */
+  get programs(): HeatingProgram[] {
+    const prefix = this.featureName('operating.programs.');
+    return this.heatPump.featureNames
+      .filter(name => name.startsWith(prefix) && this.heatPump.has(name))
+      .map(name => name.slice(prefix.length))
+      .filter(name => !name.includes('.') && !NON_TEMPERATURE_PROGRAMS.has(name));
+  }
+
+  /**
+   * State and target temperature of a program
+   */
+  getProgram(program: HeatingProgram): ProgramState | undefined {
+    const feature = this.feature(`operating.programs.${program}`);
+    if (!feature) return undefined;
+    return {
+      name: program,
+      active: getBoolean(feature, 'active'),
+      temperature: getNumber(feature, 'temperature')
+    };
+  }
+
+  /**
+   * Target temperature of a program
+   */
+  getProgramTemperature(program: HeatingProgram): number | undefined {
+    return this.getProgram(program)?.temperature;
+  }
+
+  /**
+   * Target temperature of the currently active program
+   */
+  get targetTemperature(): number | undefined {
+    const program = this.program;
+    return program ? this.getProgramTemperature(program) : undefined;
+  }
+
+  get heatingCurve(): HeatingCurve | undefined {
+    const feature = this.feature('heating.curve');
+    if (!feature) return undefined;
+    return {
+      slope: getNumber(feature, 'slope'),
+      shift: getNumber(feature, 'shift')
+    };
+  }
+
+  get supplyTemperature(): number | undefined {
+    return getNumber(this.feature('sensors.temperature.supply'));
+  }
+
+  get roomTemperature(): number | undefined {
+    return getNumber(this.feature('sensors.temperature.room'));
+  }
+
+  /**
+   * Heating schedule (`heating.circuits.N.heating.schedule`)
+   */
+  get schedule(): Schedule | undefined {
+    return this.heatPump.getSchedule(this.featureName('heating.schedule'));
+  }
+
+  /**
+   * Switch the operating mode
+   */
+  setMode(mode: string): Promise<CommandResponse> {
+    return this.execute('operating.modes.active', 'setMode', { mode });
+  }
+
+  /**
+   * Set the target temperature of a program (normal, reduced, comfort, ...)
+   */
+  setProgramTemperature(program: HeatingProgram, temperature: number): Promise<CommandResponse> {
+    const path = `operating.programs.${program}`;
+    const param = findParamName(this.feature(path), 'setTemperature', 'number');
+    return this.execute(path, 'setTemperature', { [param]: temperature });
+  }
+
+  setNormalTemperature(temperature: number): Promise<CommandResponse> {
+    return this.setProgramTemperature('normal', temperature);
+  }
+
+  setReducedTemperature(temperature: number): Promise<CommandResponse> {
+    return this.setProgramTemperature('reduced', temperature);
+  }
+
+  setComfortTemperature(temperature: number): Promise<CommandResponse> {
+    return this.setProgramTemperature('comfort', temperature);
+  }
+
+  /**
+   * Activate a program that can be switched on temporarily (comfort, eco)
+   */
+  activateProgram(program: HeatingProgram, temperature?: number): Promise<CommandResponse> {
+    const path = `operating.programs.${program}`;
+    const data = temperature === undefined
+      ? {}
+      : { [findParamName(this.feature(path), 'activate', 'number')]: temperature };
+    return this.execute(path, 'activate', data);
+  }
+
+  deactivateProgram(program: HeatingProgram): Promise<CommandResponse> {
+    return this.execute(`operating.programs.${program}`, 'deactivate');
+  }
+
+  /**
+   * Set slope and shift of the heating curve
+   */
+  setHeatingCurve(slope: number, shift: number): Promise<CommandResponse> {
+    return this.execute('heating.curve', 'setCurve', { slope, shift });
+  }
+
+  setSchedule(schedule: Schedule | WeeklySchedule): Promise<CommandResponse> {
+    return this.heatPump.setSchedule(this.featureName('heating.schedule'), schedule);
+  }
+
+  private execute(path: string, commandName: string, data?: Record<string, unknown>): Promise<CommandResponse> {
+    return this.heatPump.executeCommand(this.featureName(path), commandName, data);
+  }
+}
+
+/**
+ * Indices of the enabled heating circuits, from `heating.circuits` or by scanning feature names
+ */
+export function findCircuitIndices(heatPump: HeatPump): number[] {
+  const enabled = getProperty(heatPump.getFeature('heating.circuits'), 'enabled');
+  if (enabled?.type === 'array' && enabled.value.length > 0) {
+    return enabled.value.map(Number).sort((a, b) => a - b);
+  }
+
+  const indices = new Set<number>();
+  for (const name of heatPump.featureNames) {
+    const match = /^heating\.circuits\.(\d+)$/.exec(name);
+    if (match && heatPump.has(name)) indices.add(Number(match[1]));
+  }
+  return Array.from(indices).sort((a, b) => a - b);
+}
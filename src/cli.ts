@@ -0,0 +1,665 @@
+#!/usr/bin/env node
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { Writable } from 'stream';
+import { parseArgs } from 'util';
+import * as dotenv from 'dotenv';
+import { ViessmannClient } from './client';
+import { FileTokenStore } from './storage';
+import { promptForInput } from './oauth';
+import { Feature, FeatureProperty, ViessmannConfig } from './types';
+import {
+  AuthenticationError,
+  DeviceOfflineError,
+  FeatureNotFoundError,
+  RateLimitError,
+  ValidationError,
+  ViessmannError
+} from './errors';
+import { describeCommands } from './commands';
+import { discoverTopology, DeviceNode } from './topology';
+import { HeatPump } from './heatpump';
+import { getString } from './features';
+import { diffFeatureDumps, FeatureDumpDiff, loadFeatureDump, queryFeatures, saveFeatureDump } from './dump';
+
+/**
+ * Exit codes of the `vicare` command
+ */
+export const EXIT_CODES = {
+  ok: 0,
+  error: 1,
+  usage: 2,
+  authentication: 3,
+  notFound: 4,
+  offline: 5,
+  rateLimit: 6,
+  validation: 7
+} as const;
+
+/**
+ * Settings from the config file, overridden by environment variables and flags
+ */
+export interface CliConfig {
+  clientId?: string;
+  clientSecret?: string;
+  redirectUri?: string;
+  apiUrl?: string;
+  iamUrl?: string;
+  /** Token file (default: `.viessmann-token.json` in the working directory) */
+  tokenFile?: string;
+  installationId?: number;
+  gatewaySerial?: string;
+  deviceId?: string;
+}
+
+export interface CliIo {
+  stdout: (text: string) => void;
+  stderr: (text: string) => void;
+  env: NodeJS.ProcessEnv;
+  /** Create the client, e.g. to point the CLI at a test server */
+  createClient: (config: ViessmannConfig) => ViessmannClient;
+}
+
+type OutputFormat = 'text' | 'json' | 'table';
+
+interface CommandResult {
+  /** Printed with `--json` */
+  data: unknown;
+  /** Printed with `--table`, and by default if there are no text lines */
+  rows?: Record<string, unknown>[];
+  /** Printed by default */
+  lines?: string[];
+}
+
+interface Target {
+  installationId: number;
+  gatewaySerial: string;
+  deviceId: string;
+}
+
+type Flags = ReturnType<typeof parseFlags>['values'];
+
+class UsageError extends Error {}
+
+const COMMANDS = ['login', 'logout', 'installations', 'gateways', 'devices', 'features', 'get', 'exec', 'status', 'dump', 'diff'];
+
+const HELP = `Usage: vicare <command> [options]
+
+Commands:
+  login [--headless]                   Log in with the browser (or by pasting the redirect URL)
+  logout                               Delete the stored token
+  installations                        List installations
+  gateways                             List gateways of an installation
+  devices                              List devices of a gateway
+  features [--filter p] [--regex r]    List device features (--all includes disabled ones)
+  get <feature>                        Show properties and commands of a feature
+  exec <feature> <command> [-p k=v]    Execute a command, params are validated before sending
+  status                               Summary of the heat pump
+  dump <file>                          Save device features to a JSON file
+  diff <old> <new>                     Compare two dumps (added/removed features, values, commands)
+
+  features and get read a saved dump instead of the API with --file <dump>, diff and
+  --file work offline without a login.
+
+Options:
+  -i, --installation <id>   Installation (default: first one)
+  -g, --gateway <serial>    Gateway (default: first one)
+  -d, --device <id>         Device (default: 0)
+  -c, --config <file>       Config file (default: ~/.config/vicare/config.json)
+  -f, --file <dump>         Read features from a dump
+      --json                Print JSON
+      --table               Print a table
+  -h, --help                Show this help
+
+Environment:
+  VIESSMANN_CLIENT_ID, VIESSMANN_CLIENT_SECRET, VIESSMANN_REDIRECT_URI, VIESSMANN_API_URL,
+  VIESSMANN_IAM_URL, VIESSMANN_TOKEN_FILE, VIESSMANN_INSTALLATION_ID, VIESSMANN_GATEWAY_SERIAL, VIESSMANN_DEVICE_ID
+
+Exit codes: 0 ok, 1 error, 2 usage, 3 authentication, 4 not found, 5 device offline,
+  6 rate limited, 7 invalid command params or dump file
+`;
+
+function parseFlags(argv: string[]) {
+  return parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      installation: { type: 'string', short: 'i' },
+      gateway: { type: 'string', short: 'g' },
+      device: { type: 'string', short: 'd' },
+      config: { type: 'string', short: 'c' },
+      filter: { type: 'string', multiple: true },
+      regex: { type: 'string' },
+      file: { type: 'string', short: 'f' },
+      all: { type: 'boolean' },
+      param: { type: 'string', short: 'p', multiple: true },
+      headless: { type: 'boolean' },
+      json: { type: 'boolean' },
+      table: { type: 'boolean' },
+      help: { type: 'boolean', short: 'h' }
+    }
+  });
+}
+
+function defaultConfigPath(env: NodeJS.ProcessEnv): string {
+  const base = env.XDG_CONFIG_HOME || path.join(os.homedir(), '.config');
+  return path.join(base, 'vicare', 'config.json');
+}
+
+function toInteger(value: string | undefined, name: string): number | undefined {
+  if (value === undefined || value === '') return undefined;
+  const number = Number(value);
+  if (!Number.isInteger(number)) {
+    throw new UsageError(`${name} must be a number, got ${value}`);
+  }
+  return number;
+}
+
+/**
+ * Read the config file and let environment variables override it
+ */
+export function loadCliConfig(env: NodeJS.ProcessEnv, configFile?: string): CliConfig {
+  const file = configFile || env.VICARE_CONFIG || defaultConfigPath(env);
+  let fromFile: CliConfig = {};
+  if (fs.existsSync(file)) {
+    try {
+      fromFile = JSON.parse(fs.readFileSync(file, 'utf-8'));
+    } catch (error) {
+      throw new UsageError(`Cannot read config file ${file}: ${(error as Error).message}`);
+    }
+  } else if (configFile) {
+    throw new UsageError(`Config file ${configFile} not found`);
+  }
+
+  const fromEnv: CliConfig = {
+    clientId: env.VIESSMANN_CLIENT_ID || env.CLIENT_ID,
+    clientSecret: env.VIESSMANN_CLIENT_SECRET || env.CLIENT_SECRET,
+    redirectUri: env.VIESSMANN_REDIRECT_URI,
+    apiUrl: env.VIESSMANN_API_URL,
+    iamUrl: env.VIESSMANN_IAM_URL,
+    tokenFile: env.VIESSMANN_TOKEN_FILE,
+    installationId: toInteger(env.VIESSMANN_INSTALLATION_ID, 'VIESSMANN_INSTALLATION_ID'),
+    gatewaySerial: env.VIESSMANN_GATEWAY_SERIAL,
+    deviceId: env.VIESSMANN_DEVICE_ID
+  };
+
+  const config: CliConfig = { ...fromFile };
+  for (const [key, value] of Object.entries(fromEnv) as [keyof CliConfig, never][]) {
+    if (value !== undefined && value !== '') config[key] = value;
+  }
+  return config;
+}
+
+/**
+ * Parse `key=value` params: numbers, `true`/`false` and JSON objects/arrays are converted, anything else stays a string
+ */
+export function parseParams(params: string[] = []): Record<string, unknown> {
+  const result: Record<string, unknown> = {};
+  for (const param of params) {
+    const index = param.indexOf('=');
+    if (index <= 0) {
+      throw new UsageError(`Invalid param ${param}, expected key=value`);
+    }
+    const key = param.slice(0, index);
+    const raw = param.slice(index + 1);
+    let value: unknown = raw;
+    if (raw === 'true' || raw === 'false') {
+      value = raw === 'true';
+    } else if (raw.trim() !== '' && !Number.isNaN(Number(raw))) {
+      value = Number(raw);
+    } else if (/^[[{]/.test(raw)) {
+      try {
+        value = JSON.parse(raw);
+      } catch {
+        throw new UsageError(`Invalid JSON in param ${key}`);
+      }
+    }
+    result[key] = value;
+  }
+  return result;
+}
+
+/**
+ * Exit code for an error thrown by a command
+ */
+export function exitCodeFor(error: unknown): number {
+  if (error instanceof UsageError) return EXIT_CODES.usage;
+  if (error instanceof ValidationError) return EXIT_CODES.validation;
+  if (error instanceof AuthenticationError) return EXIT_CODES.authentication;
+  if (error instanceof FeatureNotFoundError) return EXIT_CODES.notFound;
+  if (error instanceof DeviceOfflineError) return EXIT_CODES.offline;
+  if (error instanceof RateLimitError) return EXIT_CODES.rateLimit;
+  return EXIT_CODES.error;
+}
+
+function formatValue(value: unknown): string {
+  if (value === undefined || value === null) return '';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
+
+function formatProperty(property: FeatureProperty): string {
+  const unit = 'unit' in property && property.unit ? ` ${property.unit}` : '';
+  return `${formatValue(property.value)}${unit}`;
+}
+
+/**
+ * Render rows as an aligned text table, long cells are cut off
+ */
+export function formatTable(rows: Record<string, unknown>[]): string {
+  if (rows.length === 0) return '(no results)\n';
+  const columns = Array.from(new Set(rows.flatMap(row => Object.keys(row))));
+  const cell = (value: unknown) => {
+    const text = formatValue(value).replace(/\s+/g, ' ');
+    return text.length > 60 ? `${text.slice(0, 59)}…` : text;
+  };
+  const cells = rows.map(row => columns.map(column => cell(row[column])));
+  const widths = columns.map((column, i) => Math.max(column.length, ...cells.map(row => row[i].length)));
+  const line = (values: string[]) => values.map((value, i) => value.padEnd(widths[i])).join('  ').trimEnd();
+  return [
+    line(columns.map(column => column.toUpperCase())),
+    line(widths.map(width => '-'.repeat(width))),
+    ...cells.map(line)
+  ].join('\n') + '\n';
+}
+
+function print(result: CommandResult, format: OutputFormat, io: CliIo): void {
+  if (format === 'json') {
+    io.stdout(`${JSON.stringify(result.data, null, 2)}\n`);
+  } else if (format === 'text' && result.lines) {
+    io.stdout(result.lines.map(line => `${line}\n`).join(''));
+  } else if (result.rows) {
+    io.stdout(formatTable(result.rows));
+  } else {
+    io.stdout(`${JSON.stringify(result.data, null, 2)}\n`);
+  }
+}
+
+function featureRow(feature: Feature): Record<string, unknown> {
+  const properties = Object.entries(feature.properties || {});
+  const value = properties.length === 1
+    ? formatProperty(properties[0][1])
+    : properties.map(([name, property]) => `${name}=${formatProperty(property)}`).join(' ');
+  return {
+    feature: feature.feature,
+    enabled: feature.isEnabled,
+    value,
+    commands: Object.keys(feature.commands || {}).join(', ')
+  };
+}
+
+async function resolveInstallation(client: ViessmannClient, config: CliConfig, flags: Flags): Promise<number> {
+  const installationId = toInteger(flags.installation, '--installation') ?? config.installationId;
+  if (installationId !== undefined) return installationId;
+  const installations = await client.getInstallations();
+  if (installations.data.length === 0) {
+    throw new FeatureNotFoundError('No installations found for this account');
+  }
+  return installations.data[0].id;
+}
+
+/**
+ * Fill in installation and gateway that weren't configured from the account's first ones, device defaults to `0`
+ */
+async function resolveTarget(client: ViessmannClient, config: CliConfig, flags: Flags): Promise<Target> {
+  const installationId = await resolveInstallation(client, config, flags);
+  const deviceId = flags.device ?? config.deviceId ?? '0';
+  let gatewaySerial = flags.gateway ?? config.gatewaySerial;
+  if (gatewaySerial === undefined) {
+    const gateways = await client.getGateways(installationId, false);
+    if (gateways.data.length === 0) {
+      throw new FeatureNotFoundError(`No gateways found in installation ${installationId}`);
+    }
+    gatewaySerial = gateways.data[0].serial;
+  }
+  return { installationId, gatewaySerial, deviceId };
+}
+
+async function resolveDevice(client: ViessmannClient, target: Target): Promise<DeviceNode> {
+  const installations = await discoverTopology(client);
+  const device = installations
+    .find(installation => installation.id === target.installationId)
+    ?.getGateway(target.gatewaySerial)
+    ?.getDevice(target.deviceId);
+  if (!device) {
+    throw new FeatureNotFoundError(`Device ${target.installationId}/${target.gatewaySerial}/${target.deviceId} not found`);
+  }
+  return device;
+}
+
+async function status(device: DeviceNode): Promise<CommandResult> {
+  const heatPump = await HeatPump.load(device);
+  const compressor = heatPump.getCompressor(0);
+  const energy = heatPump.getEnergy();
+  const cop = energy.cop('total', 'day');
+  const info = heatPump.deviceInfo;
+  const data = {
+    device: { installationId: device.installation.id, gatewaySerial: device.gateway.serial, deviceId: device.id, ...info },
+    temperatures: heatPump.temperatures,
+    circuits: heatPump.circuits.map(circuit => ({
+      index: circuit.index,
+      name: circuit.name,
+      mode: circuit.mode,
+      program: circuit.program,
+      targetTemperature: circuit.targetTemperature,
+      heatingCurve: circuit.heatingCurve
+    })),
+    dhw: heatPump.dhw,
+    compressor,
+    powerConsumption: heatPump.powerConsumption,
+    copYesterday: cop[cop.length - 2]?.cop,
+    scopLastYear: energy.scop('total', 'lastYear'),
+    frostProtection: getString(heatPump.getFeature('heating.circuits.0.frostprotection'), 'status')
+  };
+
+  const rows: Record<string, unknown>[] = [];
+  const add = (name: string, value: unknown, unit = '') => {
+    if (value !== undefined && value !== null) rows.push({ name, value: `${formatValue(value)}${unit}` });
+  };
+  const temps = data.temperatures;
+  add('Outside temperature', temps.outside, ' °C');
+  add('Supply temperature', temps.supply, ' °C');
+  add('Return temperature', temps.return, ' °C');
+  add('Room temperature', temps.room, ' °C');
+  add('DHW storage', temps.dhwStorage, ' °C');
+  for (const circuit of data.circuits) {
+    const label = `Circuit ${circuit.index}${circuit.name ? ` (${circuit.name})` : ''}`;
+    add(`${label} mode`, circuit.mode);
+    add(`${label} program`, circuit.program);
+    add(`${label} target`, circuit.targetTemperature, ' °C');
+    add(`${label} curve`, circuit.heatingCurve && `slope ${circuit.heatingCurve.slope}, shift ${circuit.heatingCurve.shift}`);
+  }
+  add('DHW mode', data.dhw?.mode);
+  add('DHW target', data.dhw?.targetTemperature, ' °C');
+  add('DHW charging', data.dhw?.charging);
+  add('Compressor active', compressor?.active);
+  add('Compressor hours', compressor?.hours, ' h');
+  add('Compressor starts', compressor?.starts);
+  add('Power today', data.powerConsumption.total?.today, ` ${data.powerConsumption.total?.unit || ''}`.trimEnd());
+  add('COP yesterday', data.copYesterday?.toFixed(2));
+  add('SCOP last year', data.scopLastYear?.toFixed(2));
+  add('Frost protection', data.frostProtection);
+  add('Model', info.modelId);
+  add('Serial', info.serial);
+  add('Wi-Fi strength', info.wifi?.strength);
+
+  const width = Math.max(...rows.map(row => String(row.name).length)) + 2;
+  return { data, rows, lines: rows.map(row => `${String(row.name).padEnd(width)}${row.value}`) };
+}
+
+function featureResult(feature: Feature): CommandResult {
+  const rows = Object.entries(feature.properties || {}).map(([name, property]) => ({
+    property: name,
+    type: property.type,
+    value: formatProperty(property)
+  }));
+  const commands = describeCommands(feature).map(descriptor =>
+    `  ${descriptor.name}(${descriptor.params.map(param => `${param.name}${param.required ? '' : '?'}: ${param.type}`).join(', ')})` +
+    (descriptor.isExecutable ? '' : ' [not executable]')
+  );
+  return {
+    data: feature,
+    rows,
+    lines: [
+      `${feature.feature}${feature.isEnabled ? '' : ' (disabled)'}`,
+      ...rows.map(row => `  ${row.property}: ${row.value}`),
+      ...(commands.length > 0 ? ['Commands:', ...commands] : [])
+    ]
+  };
+}
+
+function diffResult(diff: FeatureDumpDiff): CommandResult {
+  const name = (feature: string, deviceId?: string) => deviceId !== undefined ? `${deviceId}/${feature}` : feature;
+  const rows: Record<string, unknown>[] = [
+    ...diff.added.map(feature => ({ change: 'added', feature: name(feature.feature, feature.deviceId), detail: '' })),
+    ...diff.removed.map(feature => ({ change: 'removed', feature: name(feature.feature, feature.deviceId), detail: '' })),
+    ...diff.enabled.map(feature => ({ change: 'enabled', feature, detail: '' })),
+    ...diff.disabled.map(feature => ({ change: 'disabled', feature, detail: '' })),
+    ...diff.changed.flatMap(change => change.properties.map(property => ({
+      change: 'changed',
+      feature: name(change.feature, change.deviceId),
+      detail: `${property.name}: ${formatValue(property.previous)} -> ${formatValue(property.current)}`
+    }))),
+    ...diff.commands.map(change => ({
+      change: `command ${change.change}`,
+      feature: name(change.feature, change.deviceId),
+      detail: change.command
+    }))
+  ];
+  const symbols: Record<string, string> = { added: '+', removed: '-', changed: '~' };
+  return {
+    data: diff,
+    rows,
+    lines: rows.length === 0
+      ? ['No differences']
+      : rows.map(row => `${symbols[String(row.change)] || '*'} ${row.feature} ${row.change}${row.detail ? ` ${row.detail}` : ''}`)
+  };
+}
+
+/**
+ * Commands that work on saved dumps and don't need a login
+ */
+async function runOffline(command: string, args: string[], flags: Flags): Promise<CommandResult> {
+  if (command === 'diff') {
+    const [previousFile, currentFile] = args;
+    if (!previousFile || !currentFile) throw new UsageError('Usage: vicare diff <old-dump> <new-dump>');
+    const query = { filter: flags.filter, regex: flags.regex };
+    const previous = queryFeatures(await loadFeatureDump(previousFile), query);
+    const current = queryFeatures(await loadFeatureDump(currentFile), query);
+    return diffResult(diffFeatureDumps(previous, current));
+  }
+
+  const features = await loadFeatureDump(flags.file!);
+  if (command === 'features') {
+    const selected = queryFeatures(features, { filter: flags.filter, regex: flags.regex, skipDisabled: !flags.all });
+    return { data: selected, rows: selected.map(featureRow) };
+  }
+  const [featureName] = args;
+  if (!featureName) throw new UsageError('Usage: vicare get <feature> --file <dump>');
+  const feature = features.find(f => f.feature === featureName && (flags.device === undefined || f.deviceId === flags.device));
+  if (!feature) {
+    throw new FeatureNotFoundError(`Feature ${featureName} not found in ${flags.file}`);
+  }
+  return featureResult(feature);
+}
+
+async function runCommand(command: string, args: string[], flags: Flags, config: CliConfig, io: CliIo): Promise<CommandResult> {
+  if (command === 'diff' || (flags.file && (command === 'features' || command === 'get'))) {
+    return runOffline(command, args, flags);
+  }
+  if (!config.clientId) {
+    throw new UsageError('Missing client ID, set VIESSMANN_CLIENT_ID or clientId in the config file');
+  }
+  const tokenStore = new FileTokenStore(config.tokenFile);
+  const client = io.createClient({
+    clientId: config.clientId,
+    clientSecret: config.clientSecret,
+    redirectUri: config.redirectUri,
+    apiUrl: config.apiUrl,
+    iamUrl: config.iamUrl,
+    tokenStore,
+    // Keep stdout for the command result, e.g. with --json
+    log: message => io.stderr(`${message}\n`)
+  });
+
+  if (command === 'login') {
+    if (flags.headless) {
+      await client.authenticateHeadless(authUrl => {
+        io.stderr(`Open this URL in a browser on any device and log in:\n  ${authUrl}\n\n`);
+        io.stderr('After login, copy the full URL from the address bar and paste it here.\n');
+        const output = new Writable({
+          write(chunk, _encoding, callback) {
+            io.stderr(String(chunk));
+            callback();
+          }
+        });
+        return promptForInput('Redirect URL or code: ', process.stdin, output);
+      });
+    } else {
+      await client.authenticateWithBrowser();
+    }
+    return { data: { loggedIn: true }, lines: ['Logged in'] };
+  }
+  if (command === 'logout') {
+    await tokenStore.deleteToken();
+    return { data: { loggedIn: false }, lines: ['Logged out'] };
+  }
+
+  if (!(await client.restoreToken())) {
+    throw new AuthenticationError('Not logged in, run `vicare login` first');
+  }
+
+  switch (command) {
+    case 'installations': {
+      const installations = (await client.getInstallations()).data;
+      return {
+        data: installations,
+        rows: installations.map(installation => ({
+          id: installation.id,
+          description: installation.description,
+          city: installation.address?.city,
+          status: installation.aggregatedStatus
+        }))
+      };
+    }
+    case 'gateways': {
+      const installationId = await resolveInstallation(client, config, flags);
+      const gateways = (await client.getGateways(installationId, false)).data;
+      return {
+        data: gateways,
+        rows: gateways.map(gateway => ({
+          serial: gateway.serial,
+          type: gateway.gatewayType,
+          version: gateway.version,
+          status: gateway.aggregatedStatus
+        }))
+      };
+    }
+    case 'devices': {
+      const target = await resolveTarget(client, config, flags);
+      const devices = (await client.getDevices(target.installationId, target.gatewaySerial)).data;
+      return {
+        data: devices,
+        rows: devices.map(device => ({
+          id: device.id,
+          model: device.modelId,
+          type: device.deviceType,
+          status: device.status,
+          roles: device.roles.join(', ')
+        }))
+      };
+    }
+    case 'features': {
+      const target = await resolveTarget(client, config, flags);
+      const features = (await client.getDeviceFeatures(target.installationId, target.gatewaySerial, target.deviceId, {
+        filter: flags.filter,
+        regex: flags.regex,
+        skipDisabled: !flags.all
+      })).data;
+      return { data: features, rows: features.map(featureRow) };
+    }
+    case 'get': {
+      const [featureName] = args;
+      if (!featureName) throw new UsageError('Usage: vicare get <feature>');
+      const target = await resolveTarget(client, config, flags);
+      const feature = (await client.getDeviceFeature(target.installationId, target.gatewaySerial, target.deviceId, featureName)).data;
+      return featureResult(feature);
+    }
+    case 'dump': {
+      const [file] = args;
+      if (!file) throw new UsageError('Usage: vicare dump <file>');
+      const target = await resolveTarget(client, config, flags);
+      const features = (await client.getDeviceFeatures(target.installationId, target.gatewaySerial, target.deviceId, {
+        filter: flags.filter,
+        regex: flags.regex,
+        skipDisabled: !flags.all
+      })).data;
+      await saveFeatureDump(file, features);
+      return { data: { file, features: features.length }, lines: [`Saved ${features.length} features to ${file}`] };
+    }
+    case 'exec': {
+      const [featureName, commandName] = args;
+      if (!featureName || !commandName) throw new UsageError('Usage: vicare exec <feature> <command> [--param key=value]');
+      const target = await resolveTarget(client, config, flags);
+      const params = parseParams(flags.param);
+      const response = await client.executeDeviceFeatureCommand(
+        target.installationId,
+        target.gatewaySerial,
+        target.deviceId,
+        featureName,
+        commandName,
+        params,
+        { validate: true }
+      );
+      const success = response.data?.success !== false;
+      if (!success) {
+        throw new ViessmannError(`Command ${commandName} of ${featureName} was not successful: ${response.data?.reason || 'no reason given'}`);
+      }
+      return { data: response, lines: [`${featureName} ${commandName}: ok`] };
+    }
+    case 'status': {
+      const device = await resolveDevice(client, await resolveTarget(client, config, flags));
+      return status(device);
+    }
+    default:
+      throw new UsageError(`Unknown command ${command}, see vicare --help`);
+  }
+}
+
+/**
+ * Run the CLI and return the exit code instead of exiting, so it can be embedded and tested
+ */
+export async function run(argv: string[], io: Partial<CliIo> = {}): Promise<number> {
+  const cli: CliIo = {
+    stdout: text => process.stdout.write(text),
+    stderr: text => process.stderr.write(text),
+    env: process.env,
+    createClient: config => new ViessmannClient(config),
+    ...io
+  };
+
+  try {
+    const { values: flags, positionals } = (() => {
+      try {
+        return parseFlags(argv);
+      } catch (error) {
+        throw new UsageError((error as Error).message);
+      }
+    })();
+    const [command, ...args] = positionals;
+    if (flags.help) {
+      cli.stdout(HELP);
+      return EXIT_CODES.ok;
+    }
+    if (!command) {
+      cli.stderr(HELP);
+      return EXIT_CODES.usage;
+    }
+    if (!COMMANDS.includes(command)) {
+      throw new UsageError(`Unknown command ${command}, see vicare --help`);
+    }
+    if (flags.json && flags.table) {
+      throw new UsageError('Use either --json or --table');
+    }
+
+    const config = loadCliConfig(cli.env, flags.config);
+    const result = await runCommand(command, args, flags, config, cli);
+    print(result, flags.json ? 'json' : flags.table ? 'table' : 'text', cli);
+    return EXIT_CODES.ok;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    cli.stderr(`Error: ${message}\n`);
+    if (error instanceof ViessmannError && error.viErrorId) {
+      cli.stderr(`Error ID: ${error.viErrorId}${error.errorType ? ` (${error.errorType})` : ''}\n`);
+    }
+    return exitCodeFor(error);
+  }
+}
+
+if (require.main === module) {
+  dotenv.config();
+  run(process.argv.slice(2)).then(code => {
+    process.exitCode = code;
+  });
+}
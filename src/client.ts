@@ -1,22 +1,92 @@
-import axios, { AxiosInstance } from 'axios';
-import { ViessmannConfig, AuthToken, Installation, Feature } from './types';
-import { generatePKCE, generateState, buildAuthorizationURL, startCallbackServer, openBrowser } from './oauth';
-import { TokenStorage } from './storage';
+import { EventEmitter } from 'events';
+import axios, { AxiosInstance, AxiosRequestConfig, AxiosResponse, isAxiosError } from 'axios';
+import {
+  ViessmannConfig,
+  AuthToken,
+  InstallationsResponse,
+  InstallationResponse,
+  GatewaysResponse,
+  GatewayResponse,
+  DevicesResponse,
+  StatusResponse,
+  FeaturesResponse,
+  FeatureResponse,
+  CommandResponse,
+  FeatureQueryOptions,
+  GatewayFeatureQueryOptions,
+  CommandOptions,
+  Feature
+} from './types';
+import {
+  generatePKCE,
+  generateState,
+  buildAuthorizationURL,
+  startCallbackServer,
+  openBrowser,
+  parseAuthorizationResponse,
+  promptForInput,
+  DEFAULT_IAM_URL
+} from './oauth';
+import { TokenStore, FileTokenStore, StoredToken, isStoredTokenExpired } from './storage';
+import {
+  AuthenticationError,
+  FeatureNotFoundError,
+  RateLimitError,
+  TokenExpiredError,
+  ValidationError,
+  ViessmannError,
+  toAuthError,
+  toViessmannError
+} from './errors';
+import { RequestScheduler, QuotaSnapshot } from './scheduler';
+import { FeatureCache } from './cache';
+import { RetryOptions, DEFAULT_RETRY_OPTIONS, computeBackoff, delay, isRetryable } from './retry';
+import { InstallationNode, discoverTopology } from './topology';
+import { getNumber, getString } from './features';
+import { findParamName, validateParams } from './commands';
+import type { HeatingProgram } from './circuit';
+
+export interface ViessmannClientEvents {
+  /** A new access token was obtained with the refresh token */
+  tokenRefreshed: [token: StoredToken];
+  /** The refresh token was rejected, the user has to log in again */
+  refreshTokenRejected: [error: TokenExpiredError];
+}
+
+export interface ViessmannClient {
+  on<E extends keyof ViessmannClientEvents>(event: E, listener: (...args: ViessmannClientEvents[E]) => void): this;
+  once<E extends keyof ViessmannClientEvents>(event: E, listener: (...args: ViessmannClientEvents[E]) => void): this;
+  off<E extends keyof ViessmannClientEvents>(event: E, listener: (...args: ViessmannClientEvents[E]) => void): this;
+  emit<E extends keyof ViessmannClientEvents>(event: E, ...args: ViessmannClientEvents[E]): boolean;
+}
 
-export class ViessmannClient {
+export class ViessmannClient extends EventEmitter {
   private config: ViessmannConfig;
   private axiosInstance: AxiosInstance;
-  private token: AuthToken | null = null;
+  private token: StoredToken | null = null;
   private tokenExpiry: Date | null = null;
-  private tokenStorage: TokenStorage;
-  private redirectUri: string = 'http://localhost:4200/';
+  private tokenStorage: TokenStore;
+  private scheduler: RequestScheduler | null;
+  private retryOptions: Required<RetryOptions> | null;
+  private pendingRefresh: Promise<void> | null = null;
+  private cache: FeatureCache | null;
+  private redirectUri: string;
+  private tokenUrl: string;
   private scope: string = 'IoT User offline_access';
+  private validateCommands: boolean;
+  private log: (message: string) => void;
 
   constructor(config: ViessmannConfig) {
+    super();
     this.config = {
       ...config,
       apiUrl: config.apiUrl || 'https://api.viessmann.com'
     };
+    this.tokenUrl = `${(config.iamUrl || DEFAULT_IAM_URL).replace(/\/+$/, '')}/token`;
+
+    this.redirectUri = config.redirectUri || 'http://localhost:4200/';
+    this.validateCommands = config.validateCommands !== false;
+    this.log = config.log || (message => console.log(message));
 
     this.axiosInstance = axios.create({
       baseURL: this.config.apiUrl,
@@ -25,7 +95,44 @@ export class ViessmannClient {
       }
     });
 
-    this.tokenStorage = new TokenStorage();
+    this.cache = config.cache ? new FeatureCache(config.cache === true ? {} : config.cache) : null;
+    this.scheduler = config.rateLimit === false ? null : new RequestScheduler(config.rateLimit);
+
+    // Hold back requests that would exceed the API quota
+    this.axiosInstance.interceptors.request.use(async request => {
+      await this.scheduler?.acquire();
+      return request;
+    });
+
+    // Turn raw axios errors into typed errors callers can branch on
+    this.axiosInstance.interceptors.response.use(
+      response => {
+        this.scheduler?.updateFromHeaders(response.headers);
+        return response;
+      },
+      error => {
+        const viessmannError = toViessmannError(error);
+        if (viessmannError instanceof RateLimitError && this.scheduler) {
+          // Without a reset time, pause until the shortest window has passed
+          this.scheduler.blockUntil(viessmannError.limitReset ?? Date.now() + 10 * 60 * 1000);
+        }
+        const headers = error?.response?.headers;
+        if (headers) {
+          this.scheduler?.updateFromHeaders(headers);
+        }
+        return Promise.reject(viessmannError);
+      }
+    );
+
+    this.retryOptions = config.retry === false ? null : { ...DEFAULT_RETRY_OPTIONS, ...config.retry };
+
+    // Replay requests after a 401 or a transient failure
+    this.axiosInstance.interceptors.response.use(
+      response => response,
+      error => this.handleFailedRequest(error)
+    );
+
+    this.tokenStorage = config.tokenStore || new FileTokenStore();
 
     // If access token is provided, use it directly
     if (config.accessToken) {
@@ -33,7 +140,8 @@ export class ViessmannClient {
         access_token: config.accessToken,
         refresh_token: config.refreshToken || '',
         expires_in: 3600,
-        token_type: 'Bearer'
+        token_type: 'Bearer',
+        created_at: Date.now()
       };
       // Set expiry far in the future to avoid automatic refresh attempts
       this.tokenExpiry = new Date(Date.now() + 365 * 24 * 60 * 60 * 1000);
@@ -45,66 +153,123 @@ export class ViessmannClient {
    * Authenticate with browser using OAuth2 Authorization Code Flow with PKCE
    */
   async authenticateWithBrowser(): Promise<void> {
-    console.log('🔐 Starting OAuth2 authentication flow...\n');
+    this.log('🔐 Starting OAuth2 authentication flow...\n');
 
-    // Check if we have a stored token
-    const storedToken = await this.tokenStorage.loadToken();
-    if (storedToken && !this.tokenStorage.isTokenExpired(storedToken)) {
-      console.log('✅ Using stored token');
-      this.token = storedToken;
-      this.tokenExpiry = new Date(storedToken.created_at + storedToken.expires_in * 1000);
-      this.updateAuthHeader();
+    if (await this.useStoredToken()) {
+      return;
+    }
+
+    // Start new OAuth flow
+    const pkce = generatePKCE();
+    const state = generateState();
+    const authUrl = this.buildAuthorizationURL(pkce.codeChallenge, state);
+
+    this.log('🌐 Opening browser for authentication...');
+    this.log('   If the browser doesn\'t open, visit this URL:');
+    this.log(`   ${authUrl}\n`);
+
+    // Start callback server and open browser
+    const redirect = new URL(this.redirectUri);
+    const port = this.config.callbackPort || Number(redirect.port) || (redirect.protocol === 'https:' ? 443 : 80);
+    const [code] = await Promise.all([
+      startCallbackServer({
+        port,
+        host: this.config.callbackHost || redirect.hostname,
+        path: redirect.pathname,
+        expectedState: state,
+        onListening: address => this.log(`🔐 Waiting for OAuth callback on ${address}`)
+      }),
+      openBrowser(authUrl).catch(() => {
+        this.log('   Could not open browser automatically');
+      })
+    ]);
+
+    this.log('✅ Authorization code received, exchanging for token...\n');
+
+    await this.completeLogin(code, pkce.codeVerifier);
+  }
+
+  /**
+   * Authenticate without a browser or callback server, e.g. on a headless device.
+   * Prints the authorization URL and reads the redirect URL (or just the code)
+   * the user copies from their browser's address bar.
+   */
+  async authenticateHeadless(
+    prompt: (authUrl: string) => Promise<string> = authUrl => {
+      this.log('🌐 Open this URL in a browser on any device and log in:');
+      this.log(`   ${authUrl}\n`);
+      this.log('   After login the browser is redirected to a page that may not load.');
+      this.log('   Copy the full URL from the address bar and paste it here.\n');
+      return promptForInput('🔑 Redirect URL or code: ');
+    }
+  ): Promise<void> {
+    this.log('🔐 Starting OAuth2 authentication flow (headless)...\n');
+
+    if (await this.useStoredToken()) {
       return;
     }
 
+    const pkce = generatePKCE();
+    const state = generateState();
+    const authUrl = this.buildAuthorizationURL(pkce.codeChallenge, state);
+
+    const code = parseAuthorizationResponse(await prompt(authUrl), state);
+
+    this.log('✅ Authorization code received, exchanging for token...\n');
+
+    await this.completeLogin(code, pkce.codeVerifier);
+  }
+
+  /**
+   * Use a stored token, refreshing it if needed. Returns false if a new login is required.
+   */
+  private async useStoredToken(): Promise<boolean> {
+    const storedToken = await this.tokenStorage.loadToken();
+    if (storedToken && !isStoredTokenExpired(storedToken)) {
+      this.log('✅ Using stored token');
+      this.applyToken(storedToken);
+      return true;
+    }
+
     // If we have a refresh token, try to refresh
     if (storedToken?.refresh_token) {
-      console.log('🔄 Token expired, attempting refresh...');
+      this.log('🔄 Token expired, attempting refresh...');
       try {
         this.token = storedToken;
         await this.refreshToken();
-        return;
+        return true;
       } catch (error) {
-        console.log('⚠️  Token refresh failed, starting new authentication');
+        this.log('⚠️  Token refresh failed, starting new authentication');
         await this.tokenStorage.deleteToken();
       }
     }
 
-    // Start new OAuth flow
-    const pkce = generatePKCE();
-    const state = generateState();
+    return false;
+  }
 
-    const authUrl = buildAuthorizationURL(
+  private buildAuthorizationURL(codeChallenge: string, state: string): string {
+    return buildAuthorizationURL(
       {
         clientId: this.config.clientId,
         redirectUri: this.redirectUri,
         scope: this.scope,
-        state
+        state,
+        iamUrl: this.config.iamUrl
       },
-      pkce.codeChallenge
+      codeChallenge
     );
+  }
 
-    console.log('🌐 Opening browser for authentication...');
-    console.log('   If the browser doesn\'t open, visit this URL:');
-    console.log(`   ${authUrl}\n`);
-
-    // Start callback server and open browser
-    const [code] = await Promise.all([
-      startCallbackServer(4200, state),
-      openBrowser(authUrl).catch(() => {
-        console.log('   Could not open browser automatically');
-      })
-    ]);
-
-    console.log('✅ Authorization code received, exchanging for token...\n');
-
-    // Exchange code for token
-    await this.exchangeCodeForToken(code, pkce.codeVerifier);
+  /**
+   * Exchange the code and persist the token
+   */
+  private async completeLogin(code: string, codeVerifier: string): Promise<void> {
+    await this.exchangeCodeForToken(code, codeVerifier);
     
     // Save token
     if (this.token) {
       await this.tokenStorage.saveToken(this.token);
-      console.log('✅ Token saved successfully\n');
+      this.log('✅ Token saved successfully\n');
     }
   }
 
@@ -122,7 +287,7 @@ export class ViessmannClient {
       };
 
       const response = await axios.post(
-        'https://iam.viessmann.com/idp/v3/token',
+        this.tokenUrl,
         new URLSearchParams(params),
         {
           headers: {
@@ -131,14 +296,9 @@ export class ViessmannClient {
         }
       );
 
-      this.token = response.data;
-      this.tokenExpiry = new Date(Date.now() + this.token!.expires_in * 1000);
-      this.updateAuthHeader();
-    } catch (error: any) {
-      if (error.response) {
-        throw new Error(`Token exchange failed: ${error.response.status} - ${JSON.stringify(error.response.data)}`);
-      }
-      throw new Error(`Token exchange failed: ${error}`);
+      this.applyToken(response.data);
+    } catch (error) {
+      throw toAuthError('Token exchange', error);
     }
   }
 
@@ -147,7 +307,7 @@ export class ViessmannClient {
    */
   async authenticate(): Promise<void> {
     if (!this.config.username || !this.config.password || !this.config.clientSecret) {
-      throw new Error('Username, password, and client secret are required for authentication');
+      throw new AuthenticationError('Username, password, and client secret are required for authentication');
     }
 
     try {
@@ -159,7 +319,7 @@ export class ViessmannClient {
       };
 
       const response = await axios.post(
-        'https://iam.viessmann.com/idp/v3/token',
+        this.tokenUrl,
         new URLSearchParams(params),
         {
           headers: {
@@ -169,38 +329,35 @@ export class ViessmannClient {
         }
       );
 
-      this.token = response.data;
-      this.tokenExpiry = new Date(Date.now() + this.token!.expires_in * 1000);
-      this.updateAuthHeader();
-    } catch (error: any) {
-      if (error.response) {
-        throw new Error(`Authentication failed: ${error.response.status} - ${JSON.stringify(error.response.data)}`);
-      }
-      throw new Error(`Authentication failed: ${error}`);
+      this.applyToken(response.data);
+    } catch (error) {
+      throw toAuthError('Authentication', error);
     }
   }
 
   /**
-   * Refresh the access token using refresh token
+   * Refresh the access token using refresh token. Works for public PKCE
+   * clients without a client secret and keeps the previous refresh token
+   * if the server doesn't rotate it.
    */
   async refreshToken(): Promise<void> {
     if (!this.token?.refresh_token) {
-      throw new Error('No refresh token available');
-    }
-    if (!this.config.clientSecret) {
-      throw new Error('Client secret is required for token refresh');
+      throw new TokenExpiredError('No refresh token available');
     }
+    const previousRefreshToken = this.token.refresh_token;
 
     try {
       const params: Record<string, string> = {
         grant_type: 'refresh_token',
-        refresh_token: this.token.refresh_token,
-        client_id: this.config.clientId,
-        client_secret: this.config.clientSecret
+        refresh_token: previousRefreshToken,
+        client_id: this.config.clientId
       };
+      if (this.config.clientSecret) {
+        params.client_secret = this.config.clientSecret;
+      }
 
-      const response = await axios.post(
-        'https://iam.viessmann.com/idp/v3/token',
+      const response = await axios.post<AuthToken>(
+        this.tokenUrl,
         new URLSearchParams(params),
         {
           headers: {
@@ -209,17 +366,44 @@ export class ViessmannClient {
         }
       );
 
-      this.token = response.data;
-      this.tokenExpiry = new Date(Date.now() + this.token!.expires_in * 1000);
-      this.updateAuthHeader();
-      
-      // Save refreshed token
-      if (this.token) {
-        await this.tokenStorage.saveToken(this.token);
+      this.applyToken({
+        ...response.data,
+        refresh_token: response.data.refresh_token || previousRefreshToken
+      });
+    } catch (error) {
+      const authError = toAuthError('Token refresh', error, true);
+      if (authError instanceof TokenExpiredError) {
+        this.emit('refreshTokenRejected', authError);
       }
-    } catch (error: any) {
-      throw new Error(`Token refresh failed: ${error}`);
+      throw authError;
+    }
+
+    // Save refreshed token
+    await this.tokenStorage.saveToken(this.token!);
+    this.emit('tokenRefreshed', this.token!);
+  }
+
+  /**
+   * Load a previously stored token from the token store.
+   * Returns false if no token is stored.
+   */
+  async restoreToken(): Promise<boolean> {
+    const storedToken = await this.tokenStorage.loadToken();
+    if (!storedToken) {
+      return false;
     }
+    this.applyToken(storedToken);
+    return true;
+  }
+
+  /**
+   * Use a token and compute its expiry from `created_at`, the same way the token store does
+   */
+  private applyToken(token: AuthToken | StoredToken): void {
+    const createdAt = 'created_at' in token && token.created_at ? token.created_at : Date.now();
+    this.token = { ...token, created_at: createdAt };
+    this.tokenExpiry = new Date(createdAt + token.expires_in * 1000);
+    this.updateAuthHeader();
   }
 
   /**
@@ -234,13 +418,61 @@ export class ViessmannClient {
    * Ensure valid authentication before API calls
    */
   private async ensureAuthenticated(): Promise<void> {
-    if (!this.token) {
+    if (!this.token && !(await this.restoreToken())) {
+      if (!this.config.username || !this.config.password) {
+        throw new AuthenticationError('Not logged in: no stored token and no username/password for the password grant');
+      }
       await this.authenticate();
     } else if (this.isTokenExpired()) {
       await this.refreshToken();
     }
   }
 
+  /**
+   * Refresh the token and replay once on 401, retry transient failures with backoff
+   */
+  private async handleFailedRequest(error: ViessmannError): Promise<AxiosResponse> {
+    const request = isAxiosError(error.cause) ? error.cause.config : undefined;
+    if (!this.retryOptions || !request) {
+      throw error;
+    }
+    const state = (request.viessmann = request.viessmann || {});
+
+    if (
+      error instanceof TokenExpiredError &&
+      error.status === 401 &&
+      this.retryOptions.refreshOn401 &&
+      !state.refreshed &&
+      this.token?.refresh_token
+    ) {
+      state.refreshed = true;
+      await this.refreshTokenOnce();
+      request.headers.set('Authorization', `Bearer ${this.token!.access_token}`);
+      return this.axiosInstance.request(request);
+    }
+
+    const attempt = state.attempt || 0;
+    if (attempt >= this.retryOptions.retries || !isRetryable(error, request.method, state, this.retryOptions)) {
+      throw error;
+    }
+
+    state.attempt = attempt + 1;
+    await delay(computeBackoff(attempt, this.retryOptions));
+    return this.axiosInstance.request(request);
+  }
+
+  /**
+   * Share a single refresh between concurrent requests that hit a 401
+   */
+  private refreshTokenOnce(): Promise<void> {
+    if (!this.pendingRefresh) {
+      this.pendingRefresh = this.refreshToken().finally(() => {
+        this.pendingRefresh = null;
+      });
+    }
+    return this.pendingRefresh;
+  }
+
   /**
    * Update authorization header with current token
    */
@@ -252,22 +484,60 @@ export class ViessmannClient {
   }
 
   /**
-   * Get all installations for the authenticated user
+   * Drop cached feature responses, optionally only for one installation, gateway or device
+   */
+  clearCache(installationId?: number, gatewaySerial?: string, deviceId?: string): void {
+    if (!this.cache) return;
+    if (installationId === undefined) {
+      this.cache.clear();
+      return;
+    }
+    this.cache.clear([installationId, gatewaySerial, deviceId].filter(part => part !== undefined).join('/'));
+  }
+
+  /**
+   * Request options for a conditional GET when an ETag is known
+   */
+  private conditionalRequest(etag?: string): AxiosRequestConfig {
+    if (!etag) return {};
+    return {
+      headers: { 'If-None-Match': etag },
+      validateStatus: status => (status >= 200 && status < 300) || status === 304
+    };
+  }
+
+  /**
+   * Get the remaining API quota as tracked by the request scheduler
    */
-  async getInstallations(includeGateways = false): Promise<any> {
+  getQuota(): QuotaSnapshot | null {
+    return this.scheduler?.getQuota() ?? null;
+  }
+
+  /**
+   * Discover all installations, gateways and devices as a navigable object graph
+   */
+  async discover(): Promise<InstallationNode[]> {
+    return discoverTopology(this);
+  }
+
+  /**
+   * Get the installations of the authenticated user, one page at a time.
+   * Pass `cursor.next` of the previous response to get the next page.
+   */
+  async getInstallations(includeGateways = false, cursor?: string): Promise<InstallationsResponse> {
     await this.ensureAuthenticated();
-    const params = includeGateways ? { includeGateways: 'true' } : {};
-    const response = await this.axiosInstance.get('/iot/v2/equipment/installations', { params });
+    const params = { ...(includeGateways ? { includeGateways: 'true' } : {}), ...(cursor ? { cursor } : {}) };
+    const response = await this.axiosInstance.get<InstallationsResponse>('/iot/v2/equipment/installations', { params });
     return response.data;
   }
 
   /**
    * Get specific installation by ID
    */
-  async getInstallation(installationId: number, includeGateways = true): Promise<any> {
+  async getInstallation(installationId: number, includeGateways = true): Promise<InstallationResponse> {
     await this.ensureAuthenticated();
     const params = includeGateways ? { includeGateways: 'true' } : {};
-    const response = await this.axiosInstance.get(
+    const response = await this.axiosInstance.get<InstallationResponse>(
       `/iot/v2/equipment/installations/${installationId}`,
       { params }
     );
@@ -275,12 +545,12 @@ export class ViessmannClient {
   }
 
   /**
-   * Get gateways for an installation
+   * Get gateways for an installation (one page, see `getInstallations`)
    */
-  async getGateways(installationId: number, includeDevices = true): Promise<any> {
+  async getGateways(installationId: number, includeDevices = true, cursor?: string): Promise<GatewaysResponse> {
     await this.ensureAuthenticated();
-    const params = includeDevices ? { includeDevices: 'true' } : {};
-    const response = await this.axiosInstance.get(
+    const params = { ...(includeDevices ? { includeDevices: 'true' } : {}), ...(cursor ? { cursor } : {}) };
+    const response = await this.axiosInstance.get<GatewaysResponse>(
       `/iot/v2/equipment/installations/${installationId}/gateways`,
       { params }
     );
@@ -290,21 +560,22 @@ export class ViessmannClient {
   /**
    * Get specific gateway
    */
-  async getGateway(installationId: number, gatewaySerial: string): Promise<any> {
+  async getGateway(installationId: number, gatewaySerial: string): Promise<GatewayResponse> {
     await this.ensureAuthenticated();
-    const response = await this.axiosInstance.get(
+    const response = await this.axiosInstance.get<GatewayResponse>(
       `/iot/v2/equipment/installations/${installationId}/gateways/${gatewaySerial}`
     );
     return response.data;
   }
 
   /**
-   * Get devices for a gateway
+   * Get devices for a gateway (one page, see `getInstallations`)
    */
-  async getDevices(installationId: number, gatewaySerial: string): Promise<any> {
+  async getDevices(installationId: number, gatewaySerial: string, cursor?: string): Promise<DevicesResponse> {
     await this.ensureAuthenticated();
-    const response = await this.axiosInstance.get(
-      `/iot/v2/equipment/installations/${installationId}/gateways/${gatewaySerial}/devices`
+    const response = await this.axiosInstance.get<DevicesResponse>(
+      `/iot/v2/equipment/installations/${installationId}/gateways/${gatewaySerial}/devices`,
+      { params: cursor ? { cursor } : {} }
     );
     return response.data;
   }
@@ -312,9 +583,9 @@ export class ViessmannClient {
   /**
    * Get gateway status
    */
-  async getGatewayStatus(installationId: number, gatewaySerial: string): Promise<any> {
+  async getGatewayStatus(installationId: number, gatewaySerial: string): Promise<StatusResponse> {
     await this.ensureAuthenticated();
-    const response = await this.axiosInstance.get(
+    const response = await this.axiosInstance.get<StatusResponse>(
       `/iot/v2/equipment/installations/${installationId}/gateways/${gatewaySerial}/status`
     );
     return response.data;
@@ -323,9 +594,9 @@ export class ViessmannClient {
   /**
    * Get installation status
    */
-  async getInstallationStatus(installationId: number): Promise<any> {
+  async getInstallationStatus(installationId: number): Promise<StatusResponse> {
     await this.ensureAuthenticated();
-    const response = await this.axiosInstance.get(
+    const response = await this.axiosInstance.get<StatusResponse>(
       `/iot/v2/equipment/installations/${installationId}/status`
     );
     return response.data;
@@ -340,19 +611,15 @@ export class ViessmannClient {
    */
   async getInstallationFeatures(
     installationId: number,
-    options?: {
-      regex?: string;
-      filter?: string[];
-      skipDisabled?: boolean;
-    }
-  ): Promise<any> {
+    options?: FeatureQueryOptions
+  ): Promise<FeaturesResponse> {
     await this.ensureAuthenticated();
-    const params: any = {};
+    const params: Record<string, string | string[]> = {};
     if (options?.regex) params.regex = options.regex;
     if (options?.filter) params.filter = options.filter;
     if (options?.skipDisabled) params.skipDisabled = 'true';
     
-    const response = await this.axiosInstance.get(
+    const response = await this.axiosInstance.get<FeaturesResponse>(
       `/iot/v2/features/installations/${installationId}/features`,
       { params }
     );
@@ -365,9 +632,9 @@ export class ViessmannClient {
   async getInstallationFeature(
     installationId: number,
     featureName: string
-  ): Promise<any> {
+  ): Promise<FeatureResponse> {
     await this.ensureAuthenticated();
-    const response = await this.axiosInstance.get(
+    const response = await this.axiosInstance.get<FeatureResponse>(
       `/iot/v2/features/installations/${installationId}/features/${featureName}`
     );
     return response.data;
@@ -379,21 +646,16 @@ export class ViessmannClient {
   async getGatewayFeatures(
     installationId: number,
     gatewaySerial: string,
-    options?: {
-      regex?: string;
-      filter?: string[];
-      skipDisabled?: boolean;
-      includeDevicesFeatures?: boolean;
-    }
-  ): Promise<any> {
+    options?: GatewayFeatureQueryOptions
+  ): Promise<FeaturesResponse> {
     await this.ensureAuthenticated();
-    const params: any = {};
+    const params: Record<string, string | string[]> = {};
     if (options?.regex) params.regex = options.regex;
     if (options?.filter) params.filter = options.filter;
     if (options?.skipDisabled) params.skipDisabled = 'true';
     if (options?.includeDevicesFeatures) params.includeDevicesFeatures = 'true';
     
-    const response = await this.axiosInstance.get(
+    const response = await this.axiosInstance.get<FeaturesResponse>(
       `/iot/v2/features/installations/${installationId}/gateways/${gatewaySerial}/features`,
       { params }
     );
@@ -407,9 +669,9 @@ export class ViessmannClient {
     installationId: number,
     gatewaySerial: string,
     featureName: string
-  ): Promise<any> {
+  ): Promise<FeatureResponse> {
     await this.ensureAuthenticated();
-    const response = await this.axiosInstance.get(
+    const response = await this.axiosInstance.get<FeatureResponse>(
       `/iot/v2/features/installations/${installationId}/gateways/${gatewaySerial}/features/${featureName}`
     );
     return response.data;
@@ -423,13 +685,26 @@ export class ViessmannClient {
     gatewaySerial: string,
     featureName: string,
     commandName: string,
-    data?: any
-  ): Promise<any> {
+    data?: Record<string, unknown>,
+    options?: CommandOptions
+  ): Promise<CommandResponse> {
+    const payload = await this.prepareCommand(
+      undefined,
+      async () => (await this.getGatewayFeature(installationId, gatewaySerial, featureName)).data,
+      commandName,
+      data,
+      options
+    );
     await this.ensureAuthenticated();
-    const response = await this.axiosInstance.post(
+    const response = await this.axiosInstance.post<CommandResponse>(
       `/iot/v2/features/installations/${installationId}/gateways/${gatewaySerial}/features/${featureName}/commands/${commandName}`,
-      data || {}
+      payload,
+      { viessmann: { retry: options?.retry } }
     );
+    if (response.data.data?.success !== false) {
+      // Gateway commands can affect every device behind the gateway
+      this.cache?.clear(`${installationId}/${gatewaySerial}`);
+    }
     return response.data;
   }
 
@@ -440,22 +715,34 @@ export class ViessmannClient {
     installationId: number,
     gatewaySerial: string,
     deviceId: string,
-    options?: {
-      regex?: string;
-      filter?: string[];
-      skipDisabled?: boolean;
+    options?: FeatureQueryOptions
+  ): Promise<FeaturesResponse> {
+    const cacheKey = FeatureCache.key(installationId, gatewaySerial, deviceId);
+    const unfiltered = !options?.regex && !options?.filter && !options?.skipDisabled;
+    if (this.cache && unfiltered) {
+      const cached = this.cache.getAll(cacheKey);
+      if (cached) return { data: cached };
     }
-  ): Promise<any> {
+
     await this.ensureAuthenticated();
-    const params: any = {};
+    const params: Record<string, string | string[]> = {};
     if (options?.regex) params.regex = options.regex;
     if (options?.filter) params.filter = options.filter;
     if (options?.skipDisabled) params.skipDisabled = 'true';
     
-    const response = await this.axiosInstance.get(
+    const etag = this.cache && unfiltered ? this.cache.getBulkETag(cacheKey) : undefined;
+    const response = await this.axiosInstance.get<FeaturesResponse>(
       `/iot/v2/features/installations/${installationId}/gateways/${gatewaySerial}/devices/${deviceId}/features`,
-      { params }
+      { params, ...this.conditionalRequest(etag) }
     );
+
+    if (this.cache) {
+      if (response.status === 304) {
+        this.cache.touch(cacheKey);
+        return { data: this.cache.getAll(cacheKey) || [] };
+      }
+      this.cache.setFeatures(cacheKey, response.data.data, unfiltered, response.headers['etag']);
+    }
     return response.data;
   }
 
@@ -467,11 +754,31 @@ export class ViessmannClient {
     gatewaySerial: string,
     deviceId: string,
     featureName: string
-  ): Promise<any> {
+  ): Promise<FeatureResponse> {
+    const cacheKey = FeatureCache.key(installationId, gatewaySerial, deviceId);
+    if (this.cache) {
+      const cached = this.cache.getFeature(cacheKey, featureName);
+      if (cached) return { data: cached };
+      if (this.cache.isKnownMissing(cacheKey, featureName)) {
+        throw new FeatureNotFoundError(`Feature ${featureName} not found (cached)`, { status: 404 });
+      }
+    }
+
     await this.ensureAuthenticated();
-    const response = await this.axiosInstance.get(
-      `/iot/v2/features/installations/${installationId}/gateways/${gatewaySerial}/devices/${deviceId}/features/${featureName}`
+    const etag = this.cache?.getFeatureETag(cacheKey, featureName);
+    const response = await this.axiosInstance.get<FeatureResponse>(
+      `/iot/v2/features/installations/${installationId}/gateways/${gatewaySerial}/devices/${deviceId}/features/${featureName}`,
+      this.conditionalRequest(etag)
     );
+
+    if (this.cache) {
+      const stale = this.cache.peekFeature(cacheKey, featureName);
+      if (response.status === 304 && stale) {
+        this.cache.touch(cacheKey, featureName);
+        return { data: stale };
+      }
+      this.cache.setFeature(cacheKey, response.data.data, response.headers['etag']);
+    }
     return response.data;
   }
 
@@ -484,53 +791,145 @@ export class ViessmannClient {
     deviceId: string,
     featureName: string,
     commandName: string,
-    data?: any
-  ): Promise<any> {
+    data?: Record<string, unknown>,
+    options?: CommandOptions
+  ): Promise<CommandResponse> {
+    const payload = await this.prepareCommand(
+      this.cache?.peekFeature(FeatureCache.key(installationId, gatewaySerial, deviceId), featureName),
+      async () => (await this.getDeviceFeature(installationId, gatewaySerial, deviceId, featureName)).data,
+      commandName,
+      data,
+      options
+    );
     await this.ensureAuthenticated();
-    const response = await this.axiosInstance.post(
+    const response = await this.axiosInstance.post<CommandResponse>(
       `/iot/v2/features/installations/${installationId}/gateways/${gatewaySerial}/devices/${deviceId}/features/${featureName}/commands/${commandName}`,
-      data || {}
+      payload,
+      { viessmann: { retry: options?.retry } }
     );
+    if (response.data.data?.success !== false) {
+      this.cache?.invalidateAfterCommand(FeatureCache.key(installationId, gatewaySerial, deviceId), featureName);
+    }
     return response.data;
   }
 
+  /**
+   * Validate and round a command payload against the feature's command descriptor
+   */
+  private async prepareCommand(
+    cached: Feature | undefined,
+    loadFeature: () => Promise<Feature>,
+    commandName: string,
+    data: Record<string, unknown> | undefined,
+    options: CommandOptions | undefined
+  ): Promise<Record<string, unknown>> {
+    if (!(options?.validate ?? this.validateCommands)) {
+      return data || {};
+    }
+    // Only an explicit `validate: true` is worth an extra request for the descriptor
+    const feature = options?.feature || cached || (options?.validate ? await loadFeature() : undefined);
+    return feature ? validateParams(feature, commandName, data) : data || {};
+  }
+
   // ============================================
   // CONVENIENCE METHODS - Common Operations
   // ============================================
 
   /**
-   * Get current heating temperature
+   * Get the target temperature of the active program of a heating circuit
    */
   async getHeatingTemperature(
     installationId: number,
     gatewaySerial: string,
-    deviceId: string
-  ): Promise<number> {
+    deviceId: string,
+    circuit = 0
+  ): Promise<number | undefined> {
+    const program = await this.getActiveHeatingProgram(installationId, gatewaySerial, deviceId, circuit);
     const feature = await this.getDeviceFeature(
       installationId,
       gatewaySerial,
       deviceId,
-      'heating.circuits.0.operating.programs.active'
+      `heating.circuits.${circuit}.operating.programs.${program}`
     );
-    return feature.data?.properties?.value?.value;
+    return getNumber(feature.data, 'temperature');
   }
 
   /**
-   * Set heating temperature
+   * Set the target temperature of a heating program (default: `comfort`)
    */
   async setHeatingTemperature(
     installationId: number,
     gatewaySerial: string,
     deviceId: string,
-    temperature: number
+    temperature: number,
+    circuit = 0,
+    program: HeatingProgram = 'comfort'
   ): Promise<void> {
+    const featureName = `heating.circuits.${circuit}.operating.programs.${program}`;
+    const feature = await this.getDeviceFeature(installationId, gatewaySerial, deviceId, featureName);
+    const param = findParamName(feature.data, 'setTemperature', 'number');
     await this.executeDeviceFeatureCommand(
       installationId,
       gatewaySerial,
       deviceId,
-      'heating.circuits.0.operating.programs.comfort',
+      featureName,
       'setTemperature',
-      { temperature }
+      { [param]: temperature },
+      { feature: feature.data, validate: true }
     );
   }
+
+  /**
+   * Get the DHW target temperature
+   */
+  async getDhwTemperature(
+    installationId: number,
+    gatewaySerial: string,
+    deviceId: string
+  ): Promise<number | undefined> {
+    const feature = await this.getDeviceFeature(installationId, gatewaySerial, deviceId, 'heating.dhw.temperature.main');
+    return getNumber(feature.data);
+  }
+
+  /**
+   * Set the DHW target temperature
+   */
+  async setDhwTemperature(
+    installationId: number,
+    gatewaySerial: string,
+    deviceId: string,
+    temperature: number
+  ): Promise<void> {
+    const featureName = 'heating.dhw.temperature.main';
+    const feature = await this.getDeviceFeature(installationId, gatewaySerial, deviceId, featureName);
+    const param = findParamName(feature.data, 'setTargetTemperature', 'number');
+    await this.executeDeviceFeatureCommand(
+      installationId,
+      gatewaySerial,
+      deviceId,
+      featureName,
+      'setTargetTemperature',
+      { [param]: temperature },
+      { feature: feature.data, validate: true }
+    );
+  }
+
+  private async getActiveHeatingProgram(
+    installationId: number,
+    gatewaySerial: string,
+    deviceId: string,
+    circuit: number
+  ): Promise<HeatingProgram> {
+    const feature = await this.getDeviceFeature(
+      installationId,
+      gatewaySerial,
+      deviceId,
+      `heating.circuits.${circuit}.operating.programs.active`
+    );
+    const program = getString(feature.data);
+    if (!program) {
+      throw new ValidationError(`Heating circuit ${circuit} has no active program`);
+    }
+    return program;
+  }
 }
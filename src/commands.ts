@@ -0,0 +1,198 @@
+import { ValidationError } from './errors';
+import { CommandParam, CommandParamConstraints, Feature, FeatureCommand } from './types';
+import { validateSchedule } from './schedule';
+
+/**
+ * Flattened description of one command parameter
+ */
+export interface ParamDescriptor {
+  name: string;
+  type: string;
+  required: boolean;
+  min?: number;
+  max?: number;
+  stepping?: number;
+  enum?: string[];
+  regEx?: string;
+  minLength?: number;
+  maxLength?: number;
+  /** All constraints as sent by the API, including schedule constraints */
+  constraints: CommandParamConstraints;
+}
+
+/**
+ * Description of a feature command, parsed from the feature response
+ */
+export interface CommandDescriptor {
+  feature: string;
+  name: string;
+  uri: string;
+  isExecutable: boolean;
+  params: ParamDescriptor[];
+}
+
+function describeParam(name: string, param: CommandParam): ParamDescriptor {
+  const constraints = param.constraints || {};
+  return {
+    name,
+    type: param.type,
+    required: param.required,
+    min: constraints.min,
+    max: constraints.max,
+    stepping: constraints.stepping,
+    enum: constraints.enum,
+    regEx: constraints.regEx,
+    minLength: constraints.minLength,
+    maxLength: constraints.maxLength,
+    constraints
+  };
+}
+
+/**
+ * Describe a command of a feature, also if it is currently not executable
+ */
+export function describeCommand(feature: Feature, commandName: string): CommandDescriptor {
+  const command = feature.commands?.[commandName];
+  if (!command) {
+    throw new ValidationError(`Feature ${feature.feature} has no command ${commandName}`);
+  }
+  return {
+    feature: feature.feature,
+    name: commandName,
+    uri: command.uri,
+    isExecutable: command.isExecutable,
+    params: Object.entries(command.params || {}).map(([name, param]) => describeParam(name, param))
+  };
+}
+
+/**
+ * Describe all commands of a feature
+ */
+export function describeCommands(feature: Feature): CommandDescriptor[] {
+  return Object.keys(feature.commands || {}).map(name => describeCommand(feature, name));
+}
+
+/**
+ * Get an executable command of a feature
+ */
+export function getCommand(feature: Feature | undefined, commandName: string): FeatureCommand {
+  if (!feature) {
+    throw new ValidationError(`Feature is not available, cannot execute ${commandName}`);
+  }
+  const command = feature.commands?.[commandName];
+  if (!command) {
+    throw new ValidationError(`Feature ${feature.feature} has no command ${commandName}`);
+  }
+  if (!command.isExecutable) {
+    throw new ValidationError(`Command ${commandName} of ${feature.feature} is currently not executable`);
+  }
+  return command;
+}
+
+/**
+ * Name of the first parameter of a given type, e.g. `temperature` or `targetTemperature`
+ * for `setTemperature` depending on the firmware
+ */
+export function findParamName(feature: Feature | undefined, commandName: string, type: string): string {
+  const command = getCommand(feature, commandName);
+  const name = Object.keys(command.params || {}).find(param => command.params[param].type === type);
+  if (!name) {
+    throw new ValidationError(`Command ${commandName} of ${feature!.feature} has no ${type} parameter`);
+  }
+  return name;
+}
+
+/**
+ * Round a number to the parameter's stepping, counted from `min` if given
+ */
+export function roundToStepping(value: number, constraints: CommandParamConstraints): number {
+  const { stepping, min = 0 } = constraints;
+  if (!stepping || stepping <= 0) return value;
+  const rounded = min + Math.round((value - min) / stepping) * stepping;
+  // Strip floating point noise, e.g. 20.000000000000004
+  const decimals = (String(stepping).split('.')[1] || '').length + (String(min).split('.')[1] || '').length;
+  return Number(rounded.toFixed(Math.min(decimals, 10)));
+}
+
+/**
+ * Check a single parameter value against its descriptor, returns the (rounded) value
+ */
+function validateParam(featureName: string, name: string, param: CommandParam, value: unknown): unknown {
+  const label = `${featureName}: parameter ${name}`;
+  const constraints = param.constraints || {};
+
+  switch (param.type) {
+    case 'number': {
+      if (typeof value !== 'number' || !Number.isFinite(value)) {
+        throw new ValidationError(`${label} must be a number`);
+      }
+      const rounded = roundToStepping(value, constraints);
+      if (constraints.min !== undefined && rounded < constraints.min) {
+        throw new ValidationError(`${label} must be at least ${constraints.min}, got ${value}`);
+      }
+      if (constraints.max !== undefined && rounded > constraints.max) {
+        throw new ValidationError(`${label} must be at most ${constraints.max}, got ${value}`);
+      }
+      return rounded;
+    }
+    case 'string':
+      if (typeof value !== 'string') {
+        throw new ValidationError(`${label} must be a string`);
+      }
+      if (constraints.enum && !constraints.enum.includes(value)) {
+        throw new ValidationError(`${label} must be one of ${constraints.enum.join(', ')}, got ${value}`);
+      }
+      if (constraints.regEx && !new RegExp(constraints.regEx).test(value)) {
+        throw new ValidationError(`${label} must match ${constraints.regEx}, got ${value}`);
+      }
+      if (constraints.minLength !== undefined && value.length < constraints.minLength) {
+        throw new ValidationError(`${label} must have at least ${constraints.minLength} characters`);
+      }
+      if (constraints.maxLength !== undefined && value.length > constraints.maxLength) {
+        throw new ValidationError(`${label} must have at most ${constraints.maxLength} characters`);
+      }
+      return value;
+    case 'boolean':
+      if (typeof value !== 'boolean') {
+        throw new ValidationError(`${label} must be a boolean`);
+      }
+      return value;
+    case 'Schedule':
+      validateSchedule(value, constraints, label);
+      return value;
+    default:
+      return value;
+  }
+}
+
+/**
+ * Validate a command payload against the command's parameter descriptors.
+ * Returns a copy with numbers rounded to their stepping.
+ */
+export function validateParams(
+  feature: Feature | undefined,
+  commandName: string,
+  data: Record<string, unknown> = {}
+): Record<string, unknown> {
+  const command = getCommand(feature, commandName);
+  const result: Record<string, unknown> = { ...data };
+
+  for (const [name, param] of Object.entries(command.params || {})) {
+    const value = data[name];
+    if (value === undefined) {
+      if (param.required) {
+        throw new ValidationError(`${feature!.feature}: parameter ${name} is required for ${commandName}`);
+      }
+      continue;
+    }
+    result[name] = validateParam(feature!.feature, name, param, value);
+  }
+
+  for (const name of Object.keys(data)) {
+    if (!(name in (command.params || {}))) {
+      throw new ValidationError(`${feature!.feature}: unknown parameter ${name} for ${commandName}`);
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,141 @@
+import type { HeatPump } from './heatpump';
+import { CommandResponse, Feature, WeeklySchedule } from './types';
+import { getBoolean, getNumber, getString } from './features';
+import { findParamName } from './commands';
+import type { Schedule } from './schedule';
+
+export interface DhwTemperatureLimits {
+  min?: number;
+  max?: number;
+  stepping?: number;
+}
+
+/**
+ * Domestic hot water (`heating.dhw.*`) of a heat pump
+ */
+export class DomesticHotWater {
+  constructor(readonly heatPump: HeatPump) {}
+
+  private featureName(path = ''): string {
+    return path ? `heating.dhw.${path}` : 'heating.dhw';
+  }
+
+  private feature(path = ''): Feature | undefined {
+    return this.heatPump.getFeature(this.featureName(path));
+  }
+
+  get active(): boolean | undefined {
+    return getBoolean(this.feature(), 'active') ?? getBoolean(this.feature('active'));
+  }
+
+  /**
+   * Target temperature (`heating.dhw.temperature.main`)
+   */
+  get targetTemperature(): number | undefined {
+    return getNumber(this.feature('temperature.main'));
+  }
+
+  /**
+   * Range accepted by `setTargetTemperature`
+   */
+  get temperatureLimits(): DhwTemperatureLimits | undefined {
+    const command = this.feature('temperature.main')?.commands?.setTargetTemperature;
+    const param = command && Object.values(command.params).find(p => p.type === 'number');
+    if (!param) return undefined;
+    const { min, max, stepping } = param.constraints || {};
+    return { min, max, stepping };
+  }
+
+  get storageTemperature(): number | undefined {
+    return getNumber(this.feature('sensors.temperature.hotWaterStorage'));
+  }
+
+  get outletTemperature(): number | undefined {
+    return getNumber(this.feature('sensors.temperature.outlet'));
+  }
+
+  /**
+   * Active DHW mode, e.g. `efficient`, `efficientWithMinComfort`, `off`
+   */
+  get mode(): string | undefined {
+    return getString(this.feature('operating.modes.active'));
+  }
+
+  /**
+   * Modes accepted by `setMode`
+   */
+  get availableModes(): string[] {
+    return this.feature('operating.modes.active')?.commands?.setMode?.params?.mode?.constraints?.enum || [];
+  }
+
+  get charging(): boolean | undefined {
+    return getBoolean(this.feature('charging'), 'active');
+  }
+
+  /**
+   * Whether a one-time charge is currently running
+   */
+  get oneTimeCharge(): boolean | undefined {
+    return getBoolean(this.feature('oneTimeCharge'), 'active');
+  }
+
+  /**
+   * Circulation pump status, `on` or `off`
+   */
+  get circulationPump(): string | undefined {
+    return getString(this.feature('pumps.circulation'), 'status');
+  }
+
+  /**
+   * DHW heating schedule
+   */
+  get schedule(): Schedule | undefined {
+    return this.heatPump.getSchedule(this.featureName('schedule'));
+  }
+
+  /**
+   * Circulation pump schedule
+   */
+  get circulationSchedule(): Schedule | undefined {
+    return this.heatPump.getSchedule(this.featureName('pumps.circulation.schedule'));
+  }
+
+  setTargetTemperature(temperature: number): Promise<CommandResponse> {
+    const param = findParamName(this.feature('temperature.main'), 'setTargetTemperature', 'number');
+    return this.execute('temperature.main', 'setTargetTemperature', { [param]: temperature });
+  }
+
+  setMode(mode: string): Promise<CommandResponse> {
+    return this.execute('operating.modes.active', 'setMode', { mode });
+  }
+
+  /**
+   * Heat the storage once to the target temperature, independent of the schedule
+   */
+  startOneTimeCharge(): Promise<CommandResponse> {
+    return this.execute('oneTimeCharge', 'activate');
+  }
+
+  stopOneTimeCharge(): Promise<CommandResponse> {
+    return this.execute('oneTimeCharge', 'deactivate');
+  }
+
+  /**
+   * Switch the circulation pump schedule on or off. The pump itself follows the schedule.
+   */
+  setCirculationPump(active: boolean): Promise<CommandResponse> {
+    return this.execute('pumps.circulation.schedule', active ? 'activate' : 'deactivate');
+  }
+
+  setSchedule(schedule: Schedule | WeeklySchedule): Promise<CommandResponse> {
+    return this.heatPump.setSchedule(this.featureName('schedule'), schedule);
+  }
+
+  setCirculationSchedule(schedule: Schedule | WeeklySchedule): Promise<CommandResponse> {
+    return this.heatPump.setSchedule(this.featureName('pumps.circulation.schedule'), schedule);
+  }
+
+  private execute(path: string, commandName: string, data?: Record<string, unknown>): Promise<CommandResponse> {
+    return this.heatPump.executeCommand(this.featureName(path), commandName, data);
+  }
+}
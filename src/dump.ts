@@ -0,0 +1,150 @@
+import * as fs from 'fs';
+import { Feature, FeatureQueryOptions } from './types';
+import { ValidationError } from './errors';
+import { patternToRegExp } from './cache';
+import { diffProperties, PropertyChange } from './watcher';
+
+export interface FeatureValueChange {
+  feature: string;
+  deviceId?: string;
+  properties: PropertyChange[];
+}
+
+export interface CommandChange {
+  feature: string;
+  deviceId?: string;
+  command: string;
+  change: 'added' | 'removed' | 'executable' | 'notExecutable';
+}
+
+/**
+ * Differences between two feature dumps, e.g. before and after a firmware update
+ */
+export interface FeatureDumpDiff {
+  added: Feature[];
+  removed: Feature[];
+  enabled: string[];
+  disabled: string[];
+  changed: FeatureValueChange[];
+  commands: CommandChange[];
+}
+
+function isFeature(value: unknown): value is Feature {
+  return typeof value === 'object' && value !== null && typeof (value as Feature).feature === 'string';
+}
+
+/**
+ * Read features from a parsed dump: a plain array as written by `getFeatures()`, or an
+ * API response envelope `{ data: [...] }` (a single feature `{ data: {...} }` works too)
+ */
+export function parseFeatureDump(json: unknown, source = 'Feature dump'): Feature[] {
+  const data = typeof json === 'object' && json !== null && !Array.isArray(json) && 'data' in json
+    ? (json as { data: unknown }).data
+    : json;
+  const features = Array.isArray(data) ? data : isFeature(data) ? [data] : undefined;
+  if (!features) {
+    throw new ValidationError(`${source} contains no features, expected an array or { data: [...] }`);
+  }
+  const invalid = features.findIndex(feature => !isFeature(feature));
+  if (invalid >= 0) {
+    throw new ValidationError(`${source}: entry ${invalid} is not a feature`);
+  }
+  return features;
+}
+
+/**
+ * Load a feature dump from a JSON file
+ */
+export async function loadFeatureDump(filePath: string): Promise<Feature[]> {
+  let json: unknown;
+  try {
+    json = JSON.parse(await fs.promises.readFile(filePath, 'utf-8'));
+  } catch (error) {
+    throw new ValidationError(`Cannot read feature dump ${filePath}: ${(error as Error).message}`, { cause: error });
+  }
+  return parseFeatureDump(json, filePath);
+}
+
+/**
+ * Save features as a dump in the API response format
+ */
+export async function saveFeatureDump(filePath: string, features: Feature[]): Promise<void> {
+  await fs.promises.writeFile(filePath, JSON.stringify({ data: features }, null, 2), 'utf-8');
+}
+
+/**
+ * Filter features like the features endpoints do: `filter` takes feature names with `*`
+ * as wildcard, `regex` must match the whole feature name, `skipDisabled` drops disabled ones
+ */
+export function queryFeatures(features: Feature[], options: FeatureQueryOptions = {}): Feature[] {
+  const filters = options.filter?.length ? options.filter.map(patternToRegExp) : null;
+  let regex: RegExp | null = null;
+  if (options.regex) {
+    try {
+      regex = new RegExp(`^(?:${options.regex})$`);
+    } catch (error) {
+      throw new ValidationError(`Invalid regex ${options.regex}: ${(error as Error).message}`, { cause: error });
+    }
+  }
+  return features.filter(feature =>
+    (!options.skipDisabled || feature.isEnabled) &&
+    (!filters || filters.some(pattern => pattern.test(feature.feature))) &&
+    (!regex || regex.test(feature.feature))
+  );
+}
+
+/**
+ * Features of gateway dumps repeat for every device, so the device is part of the key
+ */
+function featureKey(feature: Feature): string {
+  return feature.deviceId !== undefined ? `${feature.deviceId}/${feature.feature}` : feature.feature;
+}
+
+function diffCommands(previous: Feature, current: Feature): CommandChange[] {
+  const changes: CommandChange[] = [];
+  const base = { feature: current.feature, deviceId: current.deviceId };
+  const names = new Set([...Object.keys(previous.commands || {}), ...Object.keys(current.commands || {})]);
+  for (const command of names) {
+    const before = previous.commands?.[command];
+    const after = current.commands?.[command];
+    if (!before) {
+      changes.push({ ...base, command, change: 'added' });
+    } else if (!after) {
+      changes.push({ ...base, command, change: 'removed' });
+    } else if (after.isExecutable && !before.isExecutable) {
+      changes.push({ ...base, command, change: 'executable' });
+    } else if (!after.isExecutable && before.isExecutable) {
+      changes.push({ ...base, command, change: 'notExecutable' });
+    }
+  }
+  return changes;
+}
+
+/**
+ * Compare two dumps: added and removed features, enabled state, changed property values
+ * and commands that appeared, disappeared or became (not) executable
+ */
+export function diffFeatureDumps(previous: Feature[], current: Feature[]): FeatureDumpDiff {
+  const before = new Map(previous.map(feature => [featureKey(feature), feature]));
+  const after = new Map(current.map(feature => [featureKey(feature), feature]));
+  const diff: FeatureDumpDiff = { added: [], removed: [], enabled: [], disabled: [], changed: [], commands: [] };
+
+  for (const [key, feature] of after) {
+    const old = before.get(key);
+    if (!old) {
+      diff.added.push(feature);
+      continue;
+    }
+    if (feature.isEnabled && !old.isEnabled) diff.enabled.push(key);
+    if (!feature.isEnabled && old.isEnabled) diff.disabled.push(key);
+    const properties = diffProperties(old, feature);
+    if (properties.length > 0) {
+      diff.changed.push({ feature: feature.feature, deviceId: feature.deviceId, properties });
+    }
+    diff.commands.push(...diffCommands(old, feature));
+  }
+  for (const [key, feature] of before) {
+    if (!after.has(key)) diff.removed.push(feature);
+  }
+  return diff;
+}
@@ -0,0 +1,292 @@
+import type { HeatPump } from './heatpump';
+import { Feature } from './types';
+import { getNumber, getProperty, getString, getUnit } from './features';
+import { installationTimeZone, toLocalDate } from './holiday';
+
+export type EnergyPeriod = 'day' | 'week' | 'month' | 'year';
+export type EnergyKind = 'total' | 'heating' | 'dhw';
+
+/**
+ * Energy of one period, always in kWh
+ */
+export interface EnergyPoint {
+  period: EnergyPeriod;
+  /** First day of the period as `YYYY-MM-DD` (weeks start on Monday) */
+  start: string;
+  value: number;
+}
+
+/**
+ * Dated series of one feature, oldest point first
+ */
+export interface EnergySeries {
+  feature: string;
+  period: EnergyPeriod;
+  unit: 'kWh';
+  /** When the device last updated the current period */
+  readAt?: string;
+  points: EnergyPoint[];
+}
+
+/**
+ * Totals from the `*.summary.*` features, in kWh
+ */
+export interface EnergySummary {
+  today?: number;
+  lastSevenDays?: number;
+  thisMonth?: number;
+  lastMonth?: number;
+  thisYear?: number;
+  lastYear?: number;
+}
+
+export interface CopPoint {
+  period: EnergyPeriod;
+  start: string;
+  /** Heat produced in kWh */
+  production: number;
+  /** Electricity consumed in kWh */
+  consumption: number;
+  /** production / consumption, undefined without consumption */
+  cop?: number;
+}
+
+export interface EnergyOptions {
+  /** IANA time zone used to date the series (default: from the installation's geolocation, else the process's) */
+  timeZone?: string;
+}
+
+const UNIT_FACTORS: Record<string, number> = {
+  wattHour: 0.001,
+  Wh: 0.001,
+  kilowattHour: 1,
+  kWh: 1,
+  megawattHour: 1000,
+  MWh: 1000
+};
+
+const DISPLAY_UNITS: Record<string, string> = {
+  wattHour: 'Wh',
+  kilowattHour: 'kWh',
+  megawattHour: 'MWh'
+};
+
+const SUMMARY_PROPERTIES: Record<keyof EnergySummary, string> = {
+  today: 'currentDay',
+  lastSevenDays: 'lastSevenDays',
+  thisMonth: 'currentMonth',
+  lastMonth: 'lastMonth',
+  thisYear: 'currentYear',
+  lastYear: 'lastYear'
+};
+
+/**
+ * Convert an energy value to kWh, unknown units are assumed to be kWh
+ */
+export function toKilowattHours(value: number, unit?: string): number {
+  return value * (unit ? UNIT_FACTORS[unit] ?? 1 : 1);
+}
+
+/**
+ * Short form of an energy unit for display (`kilowattHour` → `kWh`), other units are kept
+ */
+export function formatEnergyUnit(unit: string | undefined): string | undefined {
+  return unit && (DISPLAY_UNITS[unit] ?? unit);
+}
+
+function addDays(date: string, days: number): string {
+  const d = new Date(`${date}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().slice(0, 10);
+}
+
+function addMonths(date: string, months: number): string {
+  const d = new Date(`${date.slice(0, 7)}-01T00:00:00Z`);
+  d.setUTCMonth(d.getUTCMonth() + months);
+  return d.toISOString().slice(0, 10);
+}
+
+/**
+ * First day of the period `offset` periods before the one containing `date`
+ */
+function periodStart(date: string, period: EnergyPeriod, offset: number): string {
+  switch (period) {
+    case 'day':
+      return addDays(date, -offset);
+    case 'week': {
+      const weekday = (new Date(`${date}T00:00:00Z`).getUTCDay() + 6) % 7;
+      return addDays(date, -weekday - offset * 7);
+    }
+    case 'month':
+      return addMonths(date, -offset);
+    case 'year':
+      return `${Number(date.slice(0, 4)) - offset}-01-01`;
+  }
+}
+
+/**
+ * Turn the `day`/`week`/`month`/`year` array of a feature into dated points.
+ * Index 0 is the current period as of `<period>ValueReadAt` (falls back to the feature timestamp).
+ */
+export function parseEnergySeries(feature: Feature, period: EnergyPeriod, options: EnergyOptions = {}): EnergySeries | undefined {
+  const values = getProperty(feature, period);
+  if (values?.type !== 'array') return undefined;
+
+  const readAt = getString(feature, `${period}ValueReadAt`) || feature.timestamp;
+  const anchor = toLocalDate(readAt ? new Date(readAt) : new Date(), options.timeZone);
+  const unit = getUnit(feature, period);
+
+  return {
+    feature: feature.feature,
+    period,
+    unit: 'kWh',
+    readAt,
+    points: values.value
+      .map((value, index) => ({
+        period,
+        start: periodStart(anchor, period, index),
+        value: toKilowattHours(value, unit)
+      }))
+      .reverse()
+  };
+}
+
+/**
+ * Read a `*.summary.*` feature (currentDay, lastSevenDays, ...)
+ */
+export function parseEnergySummary(feature: Feature): EnergySummary {
+  const summary: EnergySummary = {};
+  for (const [key, property] of Object.entries(SUMMARY_PROPERTIES) as [keyof EnergySummary, string][]) {
+    const value = getNumber(feature, property);
+    if (value !== undefined) {
+      summary[key] = toKilowattHours(value, getUnit(feature, property));
+    }
+  }
+  return summary;
+}
+
+function sumSeries(feature: string, parts: (EnergySeries | undefined)[]): EnergySeries | undefined {
+  const present = parts.filter((part): part is EnergySeries => part !== undefined);
+  if (present.length === 0) return undefined;
+  const totals = new Map<string, number>();
+  for (const part of present) {
+    for (const point of part.points) {
+      totals.set(point.start, (totals.get(point.start) || 0) + point.value);
+    }
+  }
+  const period = present[0].period;
+  return {
+    feature,
+    period,
+    unit: 'kWh',
+    readAt: present[0].readAt,
+    points: Array.from(totals.entries())
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([start, value]) => ({ period, start, value }))
+  };
+}
+
+function sumSummaries(parts: (EnergySummary | undefined)[]): EnergySummary | undefined {
+  const present = parts.filter((part): part is EnergySummary => part !== undefined);
+  if (present.length === 0) return undefined;
+  const total: EnergySummary = {};
+  for (const key of Object.keys(SUMMARY_PROPERTIES) as (keyof EnergySummary)[]) {
+    if (present.every(part => part[key] !== undefined)) {
+      total[key] = present.reduce((sum, part) => sum + part[key]!, 0);
+    }
+  }
+  return total;
+}
+
+function ratio(production: number, consumption: number): number | undefined {
+  return consumption > 0 ? production / consumption : undefined;
+}
+
+/**
+ * Energy statistics of a heat pump: electricity consumption (`heating.power.consumption.*`)
+ * and heat production (`heating.heat.production.*`) as kWh series and summaries, plus COP
+ */
+export class EnergyStatistics {
+  private options: EnergyOptions;
+
+  constructor(
+    readonly heatPump: HeatPump,
+    options: EnergyOptions = {}
+  ) {
+    this.options = { ...options, timeZone: options.timeZone ?? installationTimeZone(heatPump.device) };
+  }
+
+  /**
+   * Electricity consumption per period
+   */
+  consumption(kind: EnergyKind, period: EnergyPeriod): EnergySeries | undefined {
+    return this.series('heating.power.consumption', kind, period);
+  }
+
+  /**
+   * Heat production per period
+   */
+  production(kind: EnergyKind, period: EnergyPeriod): EnergySeries | undefined {
+    return this.series('heating.heat.production', kind, period);
+  }
+
+  consumptionSummary(kind: EnergyKind): EnergySummary | undefined {
+    return this.summary('heating.power.consumption', kind);
+  }
+
+  productionSummary(kind: EnergyKind): EnergySummary | undefined {
+    return this.summary('heating.heat.production', kind);
+  }
+
+  /**
+   * Coefficient of performance per period, for periods with both production and consumption
+   */
+  cop(kind: EnergyKind, period: EnergyPeriod): CopPoint[] {
+    const production = this.production(kind, period);
+    const consumption = this.consumption(kind, period);
+    if (!production || !consumption) return [];
+
+    const consumed = new Map(consumption.points.map(point => [point.start, point.value]));
+    return production.points
+      .filter(point => consumed.has(point.start))
+      .map(point => ({
+        period,
+        start: point.start,
+        production: point.value,
+        consumption: consumed.get(point.start)!,
+        cop: ratio(point.value, consumed.get(point.start)!)
+      }));
+  }
+
+  /**
+   * Seasonal COP over a whole year, from the summaries or the year series
+   */
+  scop(kind: EnergyKind = 'total', year: 'thisYear' | 'lastYear' = 'lastYear'): number | undefined {
+    const production = this.productionSummary(kind)?.[year];
+    const consumption = this.consumptionSummary(kind)?.[year];
+    if (production !== undefined && consumption !== undefined) {
+      return ratio(production, consumption);
+    }
+
+    const points = this.cop(kind, 'year');
+    const point = year === 'thisYear' ? points[points.length - 1] : points[points.length - 2];
+    return point?.cop;
+  }
+
+  /**
+   * Series of a feature, totals are summed from heating and DHW if the device has no total feature
+   */
+  private series(prefix: string, kind: EnergyKind, period: EnergyPeriod): EnergySeries | undefined {
+    const feature = this.heatPump.getFeature(`${prefix}.${kind}`);
+    if (feature) return parseEnergySeries(feature, period, this.options);
+    if (kind !== 'total') return undefined;
+    return sumSeries(`${prefix}.total`, [this.series(prefix, 'heating', period), this.series(prefix, 'dhw', period)]);
+  }
+
+  private summary(prefix: string, kind: EnergyKind): EnergySummary | undefined {
+    const feature = this.heatPump.getFeature(`${prefix}.summary.${kind}`);
+    if (feature) return parseEnergySummary(feature);
+    if (kind !== 'total') return undefined;
+    return sumSummaries([this.summary(prefix, 'heating'), this.summary(prefix, 'dhw')]);
+  }
+}
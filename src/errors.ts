@@ -0,0 +1,280 @@
+import { isAxiosError } from 'axios';
+import type { EventEmitter } from 'events';
+
+/**
+ * Error body returned by the Viessmann IoT API
+ */
+export interface ViessmannErrorBody {
+  viErrorId?: string;
+  statusCode?: number;
+  errorType?: string;
+  message?: string;
+  extendedPayload?: Record<string, unknown>;
+}
+
+/**
+ * Error body returned by the Viessmann IAM token endpoint
+ */
+export interface OAuthErrorBody {
+  error?: string;
+  error_description?: string;
+}
+
+export interface ViessmannErrorDetails {
+  status?: number;
+  errorType?: string;
+  viErrorId?: string;
+  extendedPayload?: Record<string, unknown>;
+  cause?: unknown;
+}
+
+/**
+ * Base class for all errors thrown by the client
+ */
+export class ViessmannError extends Error {
+  readonly status?: number;
+  readonly errorType?: string;
+  readonly viErrorId?: string;
+  readonly extendedPayload?: Record<string, unknown>;
+  readonly cause?: unknown;
+
+  constructor(message: string, details: ViessmannErrorDetails = {}) {
+    super(message);
+    this.name = new.target.name;
+    this.status = details.status;
+    this.errorType = details.errorType;
+    this.viErrorId = details.viErrorId;
+    this.extendedPayload = details.extendedPayload;
+    this.cause = details.cause;
+    Object.setPrototypeOf(this, new.target.prototype);
+  }
+}
+
+/**
+ * Request never reached the API or no response was received
+ */
+export class NetworkError extends ViessmannError {}
+
+/**
+ * Login, code exchange or password grant was rejected, or the account is not
+ * entitled to the requested data (403, missing API package)
+ */
+export class AuthenticationError extends ViessmannError {}
+
+/**
+ * Access or refresh token is expired, revoked or otherwise invalid
+ */
+export class TokenExpiredError extends AuthenticationError {}
+
+/**
+ * Requested feature does not exist on the device
+ */
+export class FeatureNotFoundError extends ViessmannError {}
+
+/**
+ * Device or gateway cannot be reached by the backend
+ */
+export class DeviceOfflineError extends ViessmannError {}
+
+/**
+ * API call quota is exhausted
+ */
+export class RateLimitError extends ViessmannError {
+  /** Epoch milliseconds at which the limit resets, if known */
+  readonly limitReset?: number;
+
+  constructor(message: string, details: ViessmannErrorDetails & { limitReset?: number } = {}) {
+    super(message, details);
+    this.limitReset = details.limitReset;
+  }
+
+  /**
+   * Milliseconds until the limit resets, or undefined if unknown
+   */
+  get retryAfter(): number | undefined {
+    if (this.limitReset === undefined) return undefined;
+    return Math.max(0, this.limitReset - Date.now());
+  }
+}
+
+/**
+ * Command payload or request parameters were rejected
+ */
+export class ValidationError extends ViessmannError {}
+
+/**
+ * API answered with a 5xx status
+ */
+export class ServerError extends ViessmannError {}
+
+/**
+ * Any other API error that doesn't fit a more specific class
+ */
+export class ApiError extends ViessmannError {}
+
+const OFFLINE_ERROR_TYPES = new Set([
+  'DEVICE_COMMUNICATION_ERROR',
+  'DEVICE_OFFLINE',
+  'GATEWAY_OFFLINE'
+]);
+
+const TOKEN_ERROR_TYPES = new Set([
+  'TOKEN_EXPIRED',
+  'TOKEN_INVALID',
+  'TOKEN_REVOKED',
+  'EXPIRED TOKEN',
+  'INVALID_TOKEN'
+]);
+
+/**
+ * Parse the `limitReset` value of a rate limit error into epoch milliseconds
+ */
+export function parseLimitReset(value: unknown): number | undefined {
+  if (typeof value === 'number' && Number.isFinite(value)) {
+    // Seconds vs. milliseconds since epoch
+    return value < 1e12 ? value * 1000 : value;
+  }
+  if (typeof value === 'string') {
+    const numeric = Number(value);
+    if (value.trim() !== '' && Number.isFinite(numeric)) {
+      return parseLimitReset(numeric);
+    }
+    const date = Date.parse(value);
+    return Number.isNaN(date) ? undefined : date;
+  }
+  return undefined;
+}
+
+/**
+ * Parse a `Retry-After` header (seconds or HTTP date) into epoch milliseconds
+ */
+function parseRetryAfter(value: unknown): number | undefined {
+  if (typeof value !== 'string' && typeof value !== 'number') return undefined;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Date.now() + seconds * 1000;
+  const date = Date.parse(String(value));
+  return Number.isNaN(date) ? undefined : date;
+}
+
+/**
+ * Convert an error thrown by an IoT API request into a typed ViessmannError
+ */
+export function toViessmannError(error: unknown): ViessmannError {
+  if (error instanceof ViessmannError) return error;
+
+  if (!isAxiosError(error)) {
+    return new ViessmannError(error instanceof Error ? error.message : String(error), { cause: error });
+  }
+
+  if (!error.response) {
+    return new NetworkError(`Request failed: ${error.message}`, { cause: error });
+  }
+
+  const status = error.response.status;
+  const body: ViessmannErrorBody =
+    error.response.data && typeof error.response.data === 'object' ? error.response.data : {};
+  const details: ViessmannErrorDetails = {
+    status,
+    errorType: body.errorType,
+    viErrorId: body.viErrorId,
+    extendedPayload: body.extendedPayload,
+    cause: error
+  };
+  const message = !body.message
+    ? `Request failed with status ${status}`
+    : body.errorType
+      ? `${status} ${body.errorType}: ${body.message}`
+      : `${status}: ${body.message}`;
+  const errorType = body.errorType?.toUpperCase() ?? '';
+
+  if (status === 429 || errorType === 'RATE_LIMIT_EXCEEDED') {
+    const limitReset =
+      parseLimitReset(body.extendedPayload?.limitReset) ??
+      parseRetryAfter(error.response.headers?.['retry-after']);
+    return new RateLimitError(message, { ...details, limitReset });
+  }
+  if (OFFLINE_ERROR_TYPES.has(errorType)) {
+    return new DeviceOfflineError(message, details);
+  }
+  if (status === 401 || TOKEN_ERROR_TYPES.has(errorType)) {
+    return new TokenExpiredError(message, details);
+  }
+  if (status === 403 || errorType === 'PACKAGE_NOT_PAID_FOR') {
+    return new AuthenticationError(message, details);
+  }
+  if (status === 404 || errorType === 'FEATURE_NOT_FOUND') {
+    return new FeatureNotFoundError(message, details);
+  }
+  if (status === 400 || status === 422 || errorType === 'VALIDATION_ERROR') {
+    return new ValidationError(message, details);
+  }
+  if (status >= 500) {
+    return new ServerError(message, details);
+  }
+  return new ApiError(message, details);
+}
+
+/**
+ * Convert an error thrown by an IAM token request into a typed ViessmannError.
+ * An `invalid_grant` answer to a refresh means the refresh token is no longer valid.
+ */
+export function toAuthError(action: string, error: unknown, isRefresh = false): ViessmannError {
+  if (error instanceof ViessmannError) return error;
+
+  if (!isAxiosError(error)) {
+    return new AuthenticationError(`${action} failed: ${error instanceof Error ? error.message : error}`, {
+      cause: error
+    });
+  }
+
+  if (!error.response) {
+    return new NetworkError(`${action} failed: ${error.message}`, { cause: error });
+  }
+
+  const status = error.response.status;
+  const body: OAuthErrorBody & ViessmannErrorBody =
+    error.response.data && typeof error.response.data === 'object' ? error.response.data : {};
+  const reason = body.error_description || body.error || body.message || `status ${status}`;
+  const details: ViessmannErrorDetails = {
+    status,
+    errorType: body.error ?? body.errorType,
+    viErrorId: body.viErrorId,
+    extendedPayload: body.extendedPayload,
+    cause: error
+  };
+  const message = `${action} failed: ${status} - ${reason}`;
+
+  if (status === 429) {
+    const limitReset =
+      parseLimitReset(body.extendedPayload?.limitReset) ??
+      parseRetryAfter(error.response.headers?.['retry-after']);
+    return new RateLimitError(message, { ...details, limitReset });
+  }
+  if (status >= 500) {
+    return new ServerError(message, details);
+  }
+  if (isRefresh && body.error === 'invalid_grant') {
+    return new TokenExpiredError(message, details);
+  }
+  return new AuthenticationError(message, details);
+}
+
+/**
+ * Report an error of a background loop (watcher, recorder, MQTT bridge) without ending it: as `error`
+ * event when someone listens, otherwise through `log`. EventEmitter throws on an unhandled `error`.
+ */
+export function reportError(
+  emitter: EventEmitter,
+  log: (message: string) => void,
+  source: string,
+  error: unknown,
+  ...args: unknown[]
+): Error {
+  const err = error instanceof Error ? error : new ViessmannError(String(error));
+  if (emitter.listenerCount('error') > 0) {
+    emitter.emit('error', err, ...args);
+  } else {
+    log(`⚠️  ${source}: ${err.message}`);
+  }
+  return err;
+}
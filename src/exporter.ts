@@ -0,0 +1,276 @@
+import * as http from 'http';
+import { EventEmitter } from 'events';
+import type { ViessmannClient } from './client';
+import { Feature } from './types';
+import { RateLimitError, ViessmannError, reportError } from './errors';
+import { FeatureCache, patternToRegExp } from './cache';
+
+export interface PrometheusExporterOptions {
+  /** Port of the metrics server (default: 9464) */
+  port?: number;
+  /** Interface to bind (default: all interfaces) */
+  host?: string;
+  /** Path of the metrics endpoint (default: `/metrics`) */
+  path?: string;
+  /** Features to export, `*` as wildcard (default: all) */
+  features?: (string | RegExp)[];
+  /** Serve cached features for this long (ms) instead of calling the API on every scrape (default: 5 minutes) */
+  cacheTtl?: number;
+  /** Metric name prefix (default: `viessmann`) */
+  prefix?: string;
+  /** `feature.property` patterns that only ever increase and are exported as counters */
+  counters?: (string | RegExp)[];
+  /** Where server errors go while nobody listens to `error` (default: `console.error`) */
+  log?: (message: string) => void;
+}
+
+interface ExportedDevice {
+  installationId: number;
+  gatewaySerial: string;
+  deviceId: string;
+  features: Feature[];
+  fetchedAt: number;
+  /** No API call before this time, after a success as well as after a failure */
+  nextFetchAt: number;
+  success: boolean;
+  pending: Promise<void> | null;
+}
+
+type Labels = Record<string, string>;
+
+interface Sample {
+  labels: Labels;
+  value: number;
+}
+
+const DEFAULT_COUNTERS = ['*.statistics.starts', '*.statistics.hours', '*.statistics.hoursLoadClass*'];
+
+function escapeLabel(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+}
+
+function formatLabels(labels: Labels): string {
+  const pairs = Object.entries(labels).map(([name, value]) => `${name}="${escapeLabel(value)}"`);
+  return pairs.length > 0 ? `{${pairs.join(',')}}` : '';
+}
+
+/**
+ * Exposes device features as Prometheus metrics. Numbers and booleans (0/1) become
+ * gauges, the current period of consumption arrays (index 0) too; statistics like
+ * compressor starts and hours become counters.
+ */
+export class PrometheusExporter extends EventEmitter {
+  private devices = new Map<string, ExportedDevice>();
+  private server: http.Server | null = null;
+  private port: number;
+  private host?: string;
+  private path: string;
+  private patterns: RegExp[] | null;
+  private counters: RegExp[];
+  private cacheTtl: number;
+  private prefix: string;
+  private log: (message: string) => void;
+
+  constructor(
+    private client: ViessmannClient,
+    options: PrometheusExporterOptions = {}
+  ) {
+    super();
+    this.port = options.port ?? 9464;
+    this.host = options.host;
+    this.path = options.path || '/metrics';
+    this.patterns = options.features ? options.features.map(patternToRegExp) : null;
+    this.counters = (options.counters || DEFAULT_COUNTERS).map(patternToRegExp);
+    this.cacheTtl = options.cacheTtl ?? 5 * 60 * 1000;
+    this.prefix = options.prefix || 'viessmann';
+    this.log = options.log || (message => console.error(message));
+  }
+
+  addDevice(installationId: number, gatewaySerial: string, deviceId: string): this {
+    const key = FeatureCache.key(installationId, gatewaySerial, deviceId);
+    if (!this.devices.has(key)) {
+      this.devices.set(key, { installationId, gatewaySerial, deviceId, features: [], fetchedAt: 0, nextFetchAt: 0, success: false, pending: null });
+    }
+    return this;
+  }
+
+  /**
+   * Start the metrics server
+   */
+  start(): Promise<void> {
+    if (this.server) return Promise.resolve();
+
+    const server = http.createServer((req, res) => {
+      const url = new URL(req.url || '/', 'http://localhost');
+      if (req.method !== 'GET' || url.pathname !== this.path) {
+        res.writeHead(404, { 'Content-Type': 'text/plain' });
+        res.end('Not found\n');
+        return;
+      }
+      this.render().then(
+        body => {
+          res.writeHead(200, { 'Content-Type': 'text/plain; version=0.0.4; charset=utf-8' });
+          res.end(body);
+        },
+        (error: Error) => {
+          res.writeHead(500, { 'Content-Type': 'text/plain' });
+          res.end(`${error.message}\n`);
+        }
+      );
+    });
+
+    return new Promise((resolve, reject) => {
+      const onListenError = (error: NodeJS.ErrnoException) => {
+        reject(error.code === 'EADDRINUSE'
+          ? new ViessmannError(`Port ${this.port} is already in use`, { cause: error })
+          : error);
+      };
+      server.once('error', onListenError);
+      server.listen(this.port, this.host, () => {
+        server.off('error', onListenError);
+        // Without a listener a later server error would crash the process
+        server.on('error', error => reportError(this, this.log, 'PrometheusExporter', error));
+        this.server = server;
+        resolve();
+      });
+    });
+  }
+
+  /**
+   * Stop the metrics server
+   */
+  stop(): Promise<void> {
+    const server = this.server;
+    this.server = null;
+    if (!server) return Promise.resolve();
+    return new Promise(resolve => {
+      server.close(() => resolve());
+      server.closeAllConnections();
+    });
+  }
+
+  /**
+   * Port the server listens on, useful with `port: 0`
+   */
+  get address(): { port: number; host: string } | null {
+    const address = this.server?.address();
+    return address && typeof address === 'object' ? { port: address.port, host: address.address } : null;
+  }
+
+  /**
+   * Render all metrics in the Prometheus text format, refreshing stale devices first
+   */
+  async render(): Promise<string> {
+    await Promise.all(Array.from(this.devices.values()).map(device => this.refresh(device)));
+
+    const gauges: Sample[] = [];
+    const counters: Sample[] = [];
+    const success: Sample[] = [];
+    const age: Sample[] = [];
+    const now = Date.now();
+
+    for (const device of this.devices.values()) {
+      const deviceLabels = {
+        installation: String(device.installationId),
+        gateway: device.gatewaySerial,
+        device: device.deviceId
+      };
+      success.push({ labels: deviceLabels, value: device.success ? 1 : 0 });
+      if (device.fetchedAt > 0) {
+        age.push({ labels: deviceLabels, value: (now - device.fetchedAt) / 1000 });
+      }
+
+      for (const feature of device.features) {
+        if (!feature.isEnabled || !this.isSelected(feature.feature)) continue;
+        for (const [property, prop] of Object.entries(feature.properties || {})) {
+          let value: number | undefined;
+          if (prop.type === 'number') value = prop.value;
+          else if (prop.type === 'boolean') value = prop.value ? 1 : 0;
+          else if (prop.type === 'array' && typeof prop.value[0] === 'number') value = prop.value[0];
+          if (value === undefined || !Number.isFinite(value)) continue;
+
+          const unit = 'unit' in prop && prop.unit ? prop.unit : '';
+          const labels = { ...deviceLabels, feature: feature.feature, property, unit };
+          const isCounter = this.counters.some(pattern => pattern.test(`${feature.feature}.${property}`));
+          (isCounter ? counters : gauges).push({ labels, value });
+        }
+      }
+    }
+
+    const quota: Sample[] = (this.client.getQuota()?.windows || []).map(window => ({
+      labels: { window: window.name },
+      value: window.remaining
+    }));
+
+    return [
+      this.metric('feature_value', 'gauge', 'Numeric and boolean feature properties', gauges),
+      this.metric('feature_total', 'counter', 'Monotonic feature statistics such as compressor starts and hours', counters),
+      this.metric('scrape_success', 'gauge', 'Whether the last features request of a device succeeded', success),
+      this.metric('scrape_age_seconds', 'gauge', 'Age of the exported features', age),
+      this.metric('api_quota_remaining', 'gauge', 'Remaining API calls per quota window', quota)
+    ].join('');
+  }
+
+  private metric(name: string, type: 'gauge' | 'counter', help: string, samples: Sample[]): string {
+    if (samples.length === 0) return '';
+    const fullName = `${this.prefix}_${name}`;
+    const lines = [`# HELP ${fullName} ${help}`, `# TYPE ${fullName} ${type}`];
+    for (const sample of samples) {
+      lines.push(`${fullName}${formatLabels(sample.labels)} ${sample.value}`);
+    }
+    return `${lines.join('\n')}\n`;
+  }
+
+  /**
+   * Fetch features if the cached ones are older than `cacheTtl`; concurrent scrapes share one request.
+   * On errors the previous features are kept, `scrape_success` drops to 0 and the next attempt waits
+   * another `cacheTtl` (or until the quota resets), so failing scrapes don't burn the quota.
+   */
+  private refresh(device: ExportedDevice): Promise<void> {
+    const now = Date.now();
+    if (now < device.nextFetchAt) return Promise.resolve();
+    if (!device.pending) {
+      // A scrape must not wait in the scheduler queue until the quota window resets
+      const quotaReset = this.quotaResetAt(now);
+      if (quotaReset > now) {
+        device.success = false;
+        device.nextFetchAt = quotaReset;
+        return Promise.resolve();
+      }
+      device.pending = this.client
+        .getDeviceFeatures(device.installationId, device.gatewaySerial, device.deviceId)
+        .then(
+          response => {
+            device.features = response.data;
+            device.fetchedAt = Date.now();
+            device.nextFetchAt = device.fetchedAt + this.cacheTtl;
+            device.success = true;
+          },
+          error => {
+            const limitReset = error instanceof RateLimitError ? error.limitReset ?? 0 : 0;
+            device.nextFetchAt = Math.max(Date.now() + this.cacheTtl, limitReset);
+            device.success = false;
+          }
+        )
+        .finally(() => {
+          device.pending = null;
+        });
+    }
+    return device.pending;
+  }
+
+  /**
+   * Time until which the client's scheduler would hold a call back, 0 if a slot is free
+   */
+  private quotaResetAt(now: number): number {
+    const quota = this.client.getQuota();
+    if (!quota) return 0;
+    const exhausted = quota.windows.filter(window => window.remaining <= 0).map(window => window.resetAt);
+    const resetAt = Math.max(quota.blockedUntil ?? 0, ...exhausted);
+    return resetAt > now ? resetAt : 0;
+  }
+
+  private isSelected(featureName: string): boolean {
+    return !this.patterns || this.patterns.some(pattern => pattern.test(featureName));
+  }
+}
@@ -0,0 +1,60 @@
+import { Feature, FeatureProperty } from './types';
+
+/**
+ * Get a property from a feature, or undefined if the feature doesn't have it
+ */
+export function getProperty(
+  feature: Feature | null | undefined,
+  property = 'value'
+): FeatureProperty | undefined {
+  return feature?.properties?.[property];
+}
+
+/**
+ * Get the raw value of a feature property
+ */
+export function getPropertyValue(
+  feature: Feature | null | undefined,
+  property = 'value'
+): FeatureProperty['value'] | undefined {
+  return getProperty(feature, property)?.value;
+}
+
+/**
+ * Get a numeric property value
+ */
+export function getNumber(feature: Feature | null | undefined, property = 'value'): number | undefined {
+  const prop = getProperty(feature, property);
+  return prop?.type === 'number' ? prop.value : undefined;
+}
+
+/**
+ * Get a string property value
+ */
+export function getString(feature: Feature | null | undefined, property = 'value'): string | undefined {
+  const prop = getProperty(feature, property);
+  return prop?.type === 'string' ? prop.value : undefined;
+}
+
+/**
+ * Get a boolean property value
+ */
+export function getBoolean(feature: Feature | null | undefined, property = 'value'): boolean | undefined {
+  const prop = getProperty(feature, property);
+  return prop?.type === 'boolean' ? prop.value : undefined;
+}
+
+/**
+ * Get the unit of a feature property, if any
+ */
+export function getUnit(feature: Feature | null | undefined, property = 'value'): string | undefined {
+  const prop = getProperty(feature, property);
+  return prop && 'unit' in prop ? prop.unit : undefined;
+}
+
+/**
+ * Find a feature by name in a features list
+ */
+export function findFeature(features: Feature[], name: string): Feature | undefined {
+  return features.find(f => f.feature === name);
+}
@@ -0,0 +1,340 @@
+import { DeviceNode } from './topology';
+import { CommandResponse, Feature, WeeklySchedule } from './types';
+import { getBoolean, getNumber, getProperty, getString, getUnit } from './features';
+import { findParamName } from './commands';
+import { Schedule } from './schedule';
+import { findCircuitIndices, HeatingCircuit } from './circuit';
+import { DomesticHotWater } from './dhw';
+import { EnergyOptions, EnergyStatistics, formatEnergyUnit } from './energy';
+import { HolidayOptions, HolidayPeriod, HolidayProgram, HolidayProgramName, installationTimeZone, readHolidayDate } from './holiday';
+
+export interface HeatPumpTemperatures {
+  outside?: number;
+  /** Supply temperature of heating circuit 0 */
+  supply?: number;
+  return?: number;
+  room?: number;
+  primarySupply?: number;
+  primaryReturn?: number;
+  secondarySupply?: number;
+  secondaryReturn?: number;
+  dhwStorage?: number;
+  dhwOutlet?: number;
+}
+
+export interface CompressorState {
+  index: number;
+  active?: boolean;
+  phase?: string;
+  /** Total operating hours */
+  hours?: number;
+  starts?: number;
+  /** Operating hours per load class (`hoursLoadClassOne`, ...) */
+  hoursLoadClasses?: Record<string, number>;
+}
+
+export interface DhwState {
+  active?: boolean;
+  mode?: string;
+  targetTemperature?: number;
+  charging?: boolean;
+  storageTemperature?: number;
+  outletTemperature?: number;
+}
+
+export interface ConsumptionValues {
+  today?: number;
+  thisWeek?: number;
+  thisMonth?: number;
+  thisYear?: number;
+  /** Display form such as `kWh` */
+  unit?: string;
+}
+
+export interface PowerConsumption {
+  total?: ConsumptionValues;
+  heating?: ConsumptionValues;
+  dhw?: ConsumptionValues;
+}
+
+export interface DeviceInfo {
+  brand?: string;
+  modelId?: string;
+  serial?: string;
+  wifi?: {
+    ssid?: string;
+    strength?: number;
+    status?: string;
+  };
+}
+
+/**
+ * Heat pump facade with typed accessors on top of a single bulk features request.
+ * Call `refresh()` to (re)load; accessors return undefined for unsupported features.
+ */
+export class HeatPump {
+  private features = new Map<string, Feature>();
+  private loadedAt: Date | null = null;
+
+  constructor(readonly device: DeviceNode) {}
+
+  /**
+   * Load a heat pump and all its features
+   */
+  static async load(device: DeviceNode): Promise<HeatPump> {
+    const heatPump = new HeatPump(device);
+    await heatPump.refresh();
+    return heatPump;
+  }
+
+  /**
+   * Reload all features with one request
+   */
+  async refresh(): Promise<this> {
+    const features = await this.device.getFeatures();
+    this.setFeatures(features);
+    return this;
+  }
+
+  /**
+   * Replace the loaded features, e.g. from a snapshot that was fetched elsewhere
+   */
+  setFeatures(features: Feature[]): void {
+    this.features = new Map(features.map(feature => [feature.feature, feature]));
+    this.loadedAt = new Date();
+  }
+
+  /**
+   * Time of the last refresh
+   */
+  get lastUpdated(): Date | null {
+    return this.loadedAt;
+  }
+
+  /**
+   * Get a loaded feature, only if it is enabled
+   */
+  getFeature(name: string): Feature | undefined {
+    const feature = this.features.get(name);
+    return feature?.isEnabled ? feature : undefined;
+  }
+
+  /**
+   * Check if the device supports a feature
+   */
+  has(name: string): boolean {
+    return this.getFeature(name) !== undefined;
+  }
+
+  /**
+   * Names of all loaded features
+   */
+  get featureNames(): string[] {
+    return Array.from(this.features.keys());
+  }
+
+  /**
+   * Execute a command, validated against the loaded feature's command descriptor
+   */
+  executeCommand(featureName: string, commandName: string, data: Record<string, unknown> = {}): Promise<CommandResponse> {
+    return this.device.executeCommand(featureName, commandName, data, { feature: this.getFeature(featureName), validate: true });
+  }
+
+  /**
+   * Weekly schedule (`entries` property) of a loaded feature
+   */
+  getSchedule(featureName: string): Schedule | undefined {
+    const feature = this.getFeature(featureName);
+    return getProperty(feature, 'entries')?.type === 'Schedule' ? Schedule.fromFeature(feature!) : undefined;
+  }
+
+  /**
+   * Replace the weekly schedule of a feature with its `setSchedule` command
+   */
+  setSchedule(featureName: string, schedule: Schedule | WeeklySchedule): Promise<CommandResponse> {
+    const param = findParamName(this.getFeature(featureName), 'setSchedule', 'Schedule');
+    const payload = schedule instanceof Schedule ? schedule.toPayload() : schedule;
+    return this.executeCommand(featureName, 'setSchedule', { [param]: payload });
+  }
+
+  get temperatures(): HeatPumpTemperatures {
+    const temp = (name: string) => getNumber(this.getFeature(name));
+    return {
+      outside: temp('heating.sensors.temperature.outside'),
+      supply: temp('heating.circuits.0.sensors.temperature.supply'),
+      return: temp('heating.sensors.temperature.return'),
+      room: temp('heating.circuits.0.sensors.temperature.room'),
+      primarySupply: temp('heating.primaryCircuit.sensors.temperature.supply'),
+      primaryReturn: temp('heating.primaryCircuit.sensors.temperature.return'),
+      secondarySupply: temp('heating.secondaryCircuit.sensors.temperature.supply'),
+      secondaryReturn: temp('heating.secondaryCircuit.sensors.temperature.return'),
+      dhwStorage: temp('heating.dhw.sensors.temperature.hotWaterStorage'),
+      dhwOutlet: temp('heating.dhw.sensors.temperature.outlet')
+    };
+  }
+
+  /**
+   * All enabled heating circuits of the device
+   */
+  get circuits(): HeatingCircuit[] {
+    return findCircuitIndices(this).map(index => new HeatingCircuit(this, index));
+  }
+
+  /**
+   * Get one heating circuit, undefined if the device doesn't have it
+   */
+  getCircuit(index = 0): HeatingCircuit | undefined {
+    return this.has(`heating.circuits.${index}`) ? new HeatingCircuit(this, index) : undefined;
+  }
+
+  /**
+   * All compressors of the device
+   */
+  get compressors(): CompressorState[] {
+    return this.indices('heating.compressors').map(index => this.getCompressor(index)!);
+  }
+
+  /**
+   * State and statistics of one compressor
+   */
+  getCompressor(index = 0): CompressorState | undefined {
+    const prefix = `heating.compressors.${index}`;
+    const compressor = this.getFeature(prefix);
+    const active = this.getFeature(`${prefix}.active`);
+    if (!compressor && !active) return undefined;
+
+    const statistics = this.getFeature(`${prefix}.statistics`);
+    const hoursLoadClasses: Record<string, number> = {};
+    for (const [name, property] of Object.entries(statistics?.properties || {})) {
+      if (name.startsWith('hoursLoadClass') && property.type === 'number') {
+        hoursLoadClasses[name] = property.value;
+      }
+    }
+
+    return {
+      index,
+      active: getBoolean(compressor, 'active') ?? getBoolean(active),
+      phase: getString(compressor, 'phase') ?? getString(this.getFeature(`${prefix}.phase`)),
+      hours: getNumber(statistics, 'hours') ?? getNumber(this.getFeature(`${prefix}.statistics.hours`)),
+      starts: getNumber(statistics, 'starts') ?? getNumber(this.getFeature(`${prefix}.statistics.starts`)),
+      hoursLoadClasses: Object.keys(hoursLoadClasses).length > 0 ? hoursLoadClasses : undefined
+    };
+  }
+
+  get dhw(): DhwState | undefined {
+    const dhw = this.getFeature('heating.dhw');
+    if (!dhw && !this.has('heating.dhw.active')) return undefined;
+    return {
+      active: getBoolean(dhw, 'active') ?? getBoolean(this.getFeature('heating.dhw.active')),
+      mode: getString(this.getFeature('heating.dhw.operating.modes.active')),
+      targetTemperature: getNumber(this.getFeature('heating.dhw.temperature.main')),
+      charging: getBoolean(this.getFeature('heating.dhw.charging'), 'active'),
+      storageTemperature: getNumber(this.getFeature('heating.dhw.sensors.temperature.hotWaterStorage')),
+      outletTemperature: getNumber(this.getFeature('heating.dhw.sensors.temperature.outlet'))
+    };
+  }
+
+  /**
+   * Domestic hot water with setters, undefined if the device has no DHW
+   */
+  get hotWater(): DomesticHotWater | undefined {
+    return this.dhw ? new DomesticHotWater(this) : undefined;
+  }
+
+  /**
+   * Holiday period from the loaded features, undefined if not supported
+   */
+  getHolidayPeriod(program: HolidayProgramName = 'holiday'): HolidayPeriod | undefined {
+    const feature = this.getFeature(`heating.operating.programs.${program}`);
+    if (!feature) return undefined;
+    const timeZone = installationTimeZone(this.device);
+    return {
+      active: getBoolean(feature, 'active') ?? false,
+      start: readHolidayDate(getString(feature, 'start'), timeZone),
+      end: readHolidayDate(getString(feature, 'end'), timeZone)
+    };
+  }
+
+  /**
+   * Holiday program to schedule or cancel a holiday period
+   */
+  holidayProgram(program: HolidayProgramName = 'holiday', options?: HolidayOptions): HolidayProgram {
+    return new HolidayProgram(this.device, program, options);
+  }
+
+  /**
+   * Consumption and heat production as kWh series, with COP
+   */
+  getEnergy(options?: EnergyOptions): EnergyStatistics {
+    return new EnergyStatistics(this, options);
+  }
+
+  get powerConsumption(): PowerConsumption {
+    return {
+      total: this.consumption('total'),
+      heating: this.consumption('heating'),
+      dhw: this.consumption('dhw')
+    };
+  }
+
+  get deviceInfo(): DeviceInfo {
+    const wifi = this.getFeature('tcu.wifi');
+    return {
+      brand: getString(this.getFeature('device.brand')),
+      modelId: this.device.modelId,
+      serial: getString(this.getFeature('device.serial')) ?? this.device.boilerSerial ?? undefined,
+      wifi: wifi && {
+        ssid: getString(wifi, 'ssid'),
+        strength: getNumber(wifi, 'strength'),
+        status: getString(wifi, 'status')
+      }
+    };
+  }
+
+  /**
+   * Indices of numbered sub-features, e.g. `heating.compressors.0`, `heating.compressors.1`
+   */
+  protected indices(prefix: string): number[] {
+    const pattern = new RegExp(`^${prefix.replace(/\./g, '\\.')}\\.(\\d+)$`);
+    const found = new Set<number>();
+    for (const name of this.features.keys()) {
+      const match = pattern.exec(name);
+      if (match && this.has(name)) found.add(Number(match[1]));
+    }
+    return Array.from(found).sort((a, b) => a - b);
+  }
+
+  /**
+   * Read consumption from `heating.power.consumption.<kind>` (day/week/month/year arrays)
+   * or from `heating.power.consumption.summary.<kind>` (currentDay/... values)
+   */
+  private consumption(kind: 'total' | 'heating' | 'dhw'): ConsumptionValues | undefined {
+    const series = this.getFeature(`heating.power.consumption.${kind}`);
+    if (series) {
+      const first = (property: string) => {
+        const prop = getProperty(series, property);
+        return prop?.type === 'array' ? prop.value[0] : undefined;
+      };
+      return {
+        today: first('day'),
+        thisWeek: first('week'),
+        thisMonth: first('month'),
+        thisYear: first('year'),
+        unit: formatEnergyUnit(getUnit(series, 'day'))
+      };
+    }
+
+    const summary = this.getFeature(`heating.power.consumption.summary.${kind}`);
+    if (summary) {
+      return {
+        today: getNumber(summary, 'currentDay'),
+        thisWeek: getNumber(summary, 'lastSevenDays'),
+        thisMonth: getNumber(summary, 'currentMonth'),
+        thisYear: getNumber(summary, 'currentYear'),
+        unit: formatEnergyUnit(getUnit(summary, 'currentDay'))
+      };
+    }
+
+    return undefined;
+  }
+}
@@ -0,0 +1,154 @@
+import type { DeviceNode } from './topology';
+import { CommandResponse, Feature } from './types';
+import { getBoolean, getString } from './features';
+import { ValidationError } from './errors';
+
+export type HolidayProgramName = 'holiday' | 'holidayAtHome';
+
+/**
+ * Holiday period, dates as `YYYY-MM-DD` in the installation's time zone
+ */
+export interface HolidayPeriod {
+  active: boolean;
+  start?: string;
+  end?: string;
+}
+
+export interface HolidayOptions {
+  /** IANA time zone of the installation (default: from the installation's geolocation, else the process's) */
+  timeZone?: string;
+  /** Reference time for "today", for tests */
+  now?: () => Date;
+}
+
+const DATE_PATTERN = /^(\d{4})-(\d{2})-(\d{2})$/;
+
+/**
+ * Calendar date of a point in time in the given time zone, as `YYYY-MM-DD`.
+ * `Date.toISOString()` would use UTC and can be off by one day.
+ */
+export function toLocalDate(date: Date, timeZone?: string): string {
+  const parts = new Intl.DateTimeFormat('en-CA', {
+    timeZone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit'
+  }).formatToParts(date);
+  const part = (type: string) => parts.find(p => p.type === type)!.value;
+  return `${part('year')}-${part('month')}-${part('day')}`;
+}
+
+/**
+ * Normalize a `Date` or `YYYY-MM-DD` string, rejecting impossible dates like 2024-02-30
+ */
+export function toHolidayDate(value: Date | string, timeZone?: string): string {
+  if (value instanceof Date) {
+    if (Number.isNaN(value.getTime())) {
+      throw new ValidationError('Invalid date');
+    }
+    return toLocalDate(value, timeZone);
+  }
+
+  const match = DATE_PATTERN.exec(value);
+  const check = match && new Date(Date.UTC(Number(match[1]), Number(match[2]) - 1, Number(match[3])));
+  if (!check || check.toISOString().slice(0, 10) !== value) {
+    throw new ValidationError(`Invalid date ${value}, expected YYYY-MM-DD`);
+  }
+  return value;
+}
+
+/**
+ * Date of a holiday property, which is either `YYYY-MM-DD` or a full timestamp.
+ * Timestamps are converted to the calendar day in the given time zone.
+ */
+export function readHolidayDate(value: string | undefined, timeZone?: string): string | undefined {
+  if (!value || DATE_PATTERN.test(value)) return value || undefined;
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? undefined : toLocalDate(date, timeZone);
+}
+
+/**
+ * Time zone from the installation's geolocation, if the API reports one
+ */
+export function installationTimeZone(device: DeviceNode): string | undefined {
+  return device.installation.address?.geolocation?.timeZone || undefined;
+}
+
+/**
+ * Holiday programs of an installation (`heating.operating.programs.holiday` and
+ * `heating.operating.programs.holidayAtHome`)
+ */
+export class HolidayProgram {
+  readonly featureName: string;
+  private timeZone?: string;
+  private now: () => Date;
+
+  constructor(
+    readonly device: DeviceNode,
+    readonly program: HolidayProgramName = 'holiday',
+    options: HolidayOptions = {}
+  ) {
+    this.featureName = `heating.operating.programs.${program}`;
+    this.timeZone = options.timeZone ?? installationTimeZone(device);
+    this.now = options.now || (() => new Date());
+  }
+
+  /**
+   * Read the scheduled or running holiday period
+   */
+  async get(): Promise<HolidayPeriod> {
+    const feature = await this.device.getFeature(this.featureName);
+    return {
+      active: getBoolean(feature, 'active') ?? false,
+      start: readHolidayDate(getString(feature, 'start'), this.timeZone),
+      end: readHolidayDate(getString(feature, 'end'), this.timeZone)
+    };
+  }
+
+  /**
+   * Schedule a holiday period. Both days are inclusive and interpreted in the installation's time zone.
+   */
+  async schedule(start: Date | string, end: Date | string): Promise<CommandResponse> {
+    const feature = await this.device.getFeature(this.featureName);
+    const range = this.validateRange(feature, toHolidayDate(start, this.timeZone), toHolidayDate(end, this.timeZone));
+    return this.device.executeCommand(this.featureName, 'schedule', range, { feature, validate: true });
+  }
+
+  /**
+   * Move the end of a scheduled or running holiday period
+   */
+  async changeEndDate(end: Date | string): Promise<CommandResponse> {
+    const feature = await this.device.getFeature(this.featureName);
+    const start = readHolidayDate(getString(feature, 'start'), this.timeZone);
+    const endDate = toHolidayDate(end, this.timeZone);
+    if (!start) {
+      throw new ValidationError(`No ${this.program} period scheduled, cannot change the end date`);
+    }
+    this.validateRange(feature, start, endDate, false);
+    return this.device.executeCommand(this.featureName, 'changeEndDate', { end: endDate }, { feature, validate: true });
+  }
+
+  /**
+   * Cancel the scheduled or running holiday period
+   */
+  cancel(): Promise<CommandResponse> {
+    return this.device.executeCommand(this.featureName, 'unschedule', {});
+  }
+
+  private validateRange(feature: Feature, start: string, end: string, checkStart = true): { start: string; end: string } {
+    const today = toLocalDate(this.now(), this.timeZone);
+    const param = feature.commands?.schedule?.params?.end || feature.commands?.changeEndDate?.params?.end;
+    const sameDayAllowed = param?.constraints?.sameDayAllowed !== false;
+
+    if (checkStart && start < today) {
+      throw new ValidationError(`${this.program} cannot start in the past (${start}, today is ${today})`);
+    }
+    if (end < today) {
+      throw new ValidationError(`${this.program} cannot end in the past (${end}, today is ${today})`);
+    }
+    if (end < start || (end === start && !sameDayAllowed)) {
+      throw new ValidationError(`${this.program} must end after it starts (${start} - ${end})`);
+    }
+    return { start, end };
+  }
+}
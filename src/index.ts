@@ -1,4 +1,23 @@
 export { ViessmannClient } from './client';
-export { TokenStorage } from './storage';
+export * from './storage';
 export * from './types';
 export * from './oauth';
+export * from './features';
+export * from './errors';
+export * from './scheduler';
+export * from './retry';
+export * from './cache';
+export * from './accounts';
+export * from './topology';
+export * from './heatpump';
+export * from './circuit';
+export * from './commands';
+export * from './dhw';
+export * from './schedule';
+export * from './holiday';
+export * from './energy';
+export * from './watcher';
+export * from './recorder';
+export * from './exporter';
+export * from './mqtt';
+export * from './dump';
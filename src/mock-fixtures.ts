@@ -0,0 +1,258 @@
+import { Device, Feature, FeatureCommand, FeatureProperties, Gateway, Installation } from './types';
+
+export interface MockDevice {
+  device: Device;
+  features: Feature[];
+}
+
+export interface MockGateway {
+  gateway: Gateway;
+  devices: MockDevice[];
+  /** Features of the gateway itself */
+  features?: Feature[];
+}
+
+export interface MockInstallation {
+  installation: Installation;
+  gateways: MockGateway[];
+  /** Installation-wide features */
+  features?: Feature[];
+}
+
+/**
+ * Equipment and features served by the mock server
+ */
+export interface MockFixture {
+  installations: MockInstallation[];
+}
+
+const INSTALLATION_ID = 123456;
+const GATEWAY_SERIAL = '7633107093013212';
+const RECORDED_AT = '2026-10-18T12:00:00.000Z';
+
+const WEEKLY_SCHEDULE = Object.fromEntries(
+  ['mon', 'tue', 'wed', 'thu', 'fri', 'sat', 'sun'].map(day => [
+    day,
+    [{ start: '05:30', end: '22:00', mode: 'normal', position: 0 }]
+  ])
+);
+
+function number(value: number, unit: string): FeatureProperties[string] {
+  return { type: 'number', value, unit };
+}
+
+function command(
+  featureUri: string,
+  name: string,
+  params: FeatureCommand['params'] = {},
+  isExecutable = true
+): Record<string, FeatureCommand> {
+  return { [name]: { uri: `${featureUri}/commands/${name}`, name, isExecutable, params } };
+}
+
+/**
+ * Build a device feature the way the features endpoint returns it
+ */
+function feature(
+  name: string,
+  properties: FeatureProperties,
+  commands: (uri: string) => Record<string, FeatureCommand> = () => ({}),
+  isEnabled = true
+): Feature {
+  const uri = `https://api.viessmann.com/iot/v2/features/installations/${INSTALLATION_ID}/gateways/${GATEWAY_SERIAL}/devices/0/features/${name}`;
+  return {
+    apiVersion: 1,
+    feature: name,
+    gatewayId: GATEWAY_SERIAL,
+    deviceId: '0',
+    isEnabled,
+    isReady: true,
+    timestamp: RECORDED_AT,
+    uri,
+    properties,
+    commands: commands(uri)
+  };
+}
+
+const temperatureParam = (min: number, max: number, stepping: number) => ({
+  type: 'number',
+  required: true,
+  constraints: { min, max, stepping }
+});
+
+const holidayParams = {
+  start: { type: 'string', required: true, constraints: { regEx: '^[\\d]{4}-[\\d]{2}-[\\d]{2}$' } },
+  end: { type: 'string', required: true, constraints: { regEx: '^[\\d]{4}-[\\d]{2}-[\\d]{2}$', sameDayAllowed: false } }
+};
+
+/**
+ * Heat pump features recorded from a Vitocal with one heating circuit, anonymized
+ */
+export const HEAT_PUMP_FEATURES: Feature[] = [
+  feature('device.brand', { value: { type: 'string', value: 'Viessmann' } }),
+  feature('device.serial', { value: { type: 'string', value: '7723181102205106' } }),
+  feature('tcu.wifi', { ssid: { type: 'string', value: 'home' }, strength: number(-61, ''), status: { type: 'string', value: 'connected' } }),
+  feature('heating.sensors.temperature.outside', { status: { type: 'string', value: 'connected' }, value: number(8.4, 'celsius') }),
+  feature('heating.sensors.temperature.return', { status: { type: 'string', value: 'connected' }, value: number(29.1, 'celsius') }),
+  feature('heating.primaryCircuit.sensors.temperature.supply', { status: { type: 'string', value: 'connected' }, value: number(7.9, 'celsius') }),
+  feature('heating.secondaryCircuit.sensors.temperature.supply', { status: { type: 'string', value: 'connected' }, value: number(33.6, 'celsius') }),
+  feature('heating.circuits.0', { active: { type: 'boolean', value: true }, name: { type: 'string', value: 'Heizkreis' }, type: { type: 'string', value: 'heatingCircuit' } }),
+  feature('heating.circuits.0.sensors.temperature.supply', { status: { type: 'string', value: 'connected' }, value: number(33.6, 'celsius') }),
+  feature('heating.circuits.0.sensors.temperature.room', { status: { type: 'string', value: 'notConnected' } }, undefined, false),
+  feature('heating.circuits.0.operating.modes.active', { value: { type: 'string', value: 'heating' } }, uri =>
+    command(uri, 'setMode', { mode: { type: 'string', required: true, constraints: { enum: ['standby', 'heating', 'dhwAndHeating'] } } })
+  ),
+  feature('heating.circuits.0.operating.programs.active', { value: { type: 'string', value: 'normal' } }),
+  feature('heating.circuits.0.operating.programs.normal', { active: { type: 'boolean', value: true }, demand: { type: 'string', value: 'unknown' }, temperature: number(21, 'celsius') }, uri =>
+    command(uri, 'setTemperature', { targetTemperature: temperatureParam(10, 30, 1) })
+  ),
+  feature('heating.circuits.0.operating.programs.reduced', { active: { type: 'boolean', value: false }, demand: { type: 'string', value: 'unknown' }, temperature: number(18, 'celsius') }, uri =>
+    command(uri, 'setTemperature', { targetTemperature: temperatureParam(10, 30, 1) })
+  ),
+  feature('heating.circuits.0.operating.programs.comfort', { active: { type: 'boolean', value: false }, demand: { type: 'string', value: 'unknown' }, temperature: number(22, 'celsius') }, uri => ({
+    ...command(uri, 'setTemperature', { targetTemperature: temperatureParam(10, 30, 1) }),
+    ...command(uri, 'activate', { temperature: { ...temperatureParam(10, 30, 1), required: false } }),
+    ...command(uri, 'deactivate', {}, false)
+  })),
+  feature('heating.circuits.0.heating.curve', { shift: number(0, ''), slope: number(0.6, '') }, uri =>
+    command(uri, 'setCurve', {
+      slope: { type: 'number', required: true, constraints: { min: 0.2, max: 3.5, stepping: 0.1 } },
+      shift: { type: 'number', required: true, constraints: { min: -13, max: 40, stepping: 1 } }
+    })
+  ),
+  feature('heating.circuits.0.heating.schedule', { active: { type: 'boolean', value: true }, entries: { type: 'Schedule', value: WEEKLY_SCHEDULE } }, uri =>
+    command(uri, 'setSchedule', {
+      newSchedule: { type: 'Schedule', required: true, constraints: { modes: ['reduced', 'normal', 'fixed'], maxEntries: 8, resolution: 10, defaultMode: 'reduced', overlapAllowed: false } }
+    })
+  ),
+  feature('heating.circuits.0.frostprotection', { status: { type: 'string', value: 'off' } }),
+  feature('heating.compressors.0', { active: { type: 'boolean', value: true }, phase: { type: 'string', value: 'heating' } }),
+  feature('heating.compressors.0.statistics', {
+    starts: number(4182, ''),
+    hours: number(7431.5, 'hour'),
+    hoursLoadClassOne: number(312, 'hour'),
+    hoursLoadClassTwo: number(2204, 'hour'),
+    hoursLoadClassThree: number(3687, 'hour')
+  }),
+  feature('heating.dhw', { active: { type: 'boolean', value: true }, status: { type: 'string', value: 'on' } }),
+  feature('heating.dhw.charging', { active: { type: 'boolean', value: false } }),
+  feature('heating.dhw.oneTimeCharge', { active: { type: 'boolean', value: false } }, uri => ({
+    ...command(uri, 'activate'),
+    ...command(uri, 'deactivate', {}, false)
+  })),
+  feature('heating.dhw.sensors.temperature.hotWaterStorage', { status: { type: 'string', value: 'connected' }, value: number(48.2, 'celsius') }),
+  feature('heating.dhw.temperature.main', { value: number(50, 'celsius') }, uri =>
+    command(uri, 'setTargetTemperature', { temperature: { type: 'number', required: true, constraints: { min: 10, efficientLowerBorder: 10, efficientUpperBorder: 55, max: 60, stepping: 1 } } })
+  ),
+  feature('heating.dhw.operating.modes.active', { value: { type: 'string', value: 'efficient' } }, uri =>
+    command(uri, 'setMode', { mode: { type: 'string', required: true, constraints: { enum: ['off', 'efficient', 'efficientWithMinComfort'] } } })
+  ),
+  feature('heating.dhw.schedule', { active: { type: 'boolean', value: true }, entries: { type: 'Schedule', value: WEEKLY_SCHEDULE } }, uri =>
+    command(uri, 'setSchedule', {
+      newSchedule: { type: 'Schedule', required: true, constraints: { modes: ['top', 'normal', 'temp-2'], maxEntries: 8, resolution: 10, defaultMode: 'off', overlapAllowed: false } }
+    })
+  ),
+  feature('heating.power.consumption.total', {
+    day: { type: 'array', value: [9.8, 14.2, 13.1, 11.9, 15.4, 12.7, 10.3, 16.1], unit: 'kilowattHour' },
+    dayValueReadAt: { type: 'string', value: RECORDED_AT },
+    week: { type: 'array', value: [52.3, 84.1, 79.6, 71.2], unit: 'kilowattHour' },
+    weekValueReadAt: { type: 'string', value: RECORDED_AT },
+    month: { type: 'array', value: [201.4, 268.7, 94.2, 81.5, 79.9, 88.3, 142.6, 301.8, 455.2, 512.6, 488.1, 402.3, 311.7], unit: 'kilowattHour' },
+    monthValueReadAt: { type: 'string', value: RECORDED_AT },
+    year: { type: 'array', value: [2410.6, 3398.4], unit: 'kilowattHour' },
+    yearValueReadAt: { type: 'string', value: RECORDED_AT }
+  }),
+  feature('heating.heat.production.total', {
+    day: { type: 'array', value: [38.1, 52.9, 49.6, 46.8, 57.2, 48.3, 40.5, 59.7], unit: 'kilowattHour' },
+    dayValueReadAt: { type: 'string', value: RECORDED_AT },
+    year: { type: 'array', value: [9126.3, 12845.2], unit: 'kilowattHour' },
+    yearValueReadAt: { type: 'string', value: RECORDED_AT }
+  }),
+  feature('heating.operating.programs.holiday', { active: { type: 'boolean', value: false }, start: { type: 'string', value: '' }, end: { type: 'string', value: '' } }, uri => ({
+    ...command(uri, 'changeEndDate', { end: holidayParams.end }, false),
+    ...command(uri, 'schedule', holidayParams),
+    ...command(uri, 'unschedule')
+  }))
+];
+
+/**
+ * One installation with a Vitoconnect gateway and a heat pump as device `0`
+ */
+export const DEFAULT_FIXTURE: MockFixture = {
+  installations: [
+    {
+      installation: {
+        id: INSTALLATION_ID,
+        description: 'Einfamilienhaus',
+        address: {
+          street: 'Musterstraße',
+          houseNumber: '1',
+          zip: '35108',
+          city: 'Allendorf',
+          region: null,
+          country: 'de',
+          phoneNumber: null,
+          faxNumber: null,
+          geolocation: { latitude: 51.02, longitude: 8.67, timeZone: 'Europe/Berlin' }
+        },
+        registeredAt: '2021-04-12T09:31:22.000Z',
+        updatedAt: RECORDED_AT,
+        aggregatedStatus: 'WorksProperly',
+        servicedBy: null,
+        heatingType: null,
+        ownedByMaintainer: false,
+        endUserWlanCommissioned: true,
+        withoutViCareUser: false,
+        installationType: 'Residential',
+        buildingName: null,
+        buildingEmail: null,
+        buildingPhone: null,
+        accessLevel: 'Owner',
+        ownershipType: 'Owner',
+        brand: 'Viessmann'
+      },
+      gateways: [
+        {
+          gateway: {
+            serial: GATEWAY_SERIAL,
+            version: '2.3.1.0',
+            firmwareUpdateFailureCounter: 0,
+            autoUpdate: true,
+            createdAt: '2021-04-12T09:31:22.000Z',
+            producedAt: '2020-11-03T00:00:00.000Z',
+            lastStatusChangedAt: RECORDED_AT,
+            aggregatedStatus: 'WorksProperly',
+            targetRealm: 'Genesis',
+            gatewayType: 'VitoconnectOpto1',
+            installationId: INSTALLATION_ID,
+            registeredAt: '2021-04-12T09:31:22.000Z',
+            description: null,
+            otaOngoing: false
+          },
+          devices: [
+            {
+              device: {
+                gatewaySerial: GATEWAY_SERIAL,
+                id: '0',
+                boilerSerial: '7723181102205106',
+                boilerSerialEditor: 'DeviceCommunication',
+                bmuSerial: null,
+                bmuSerialEditor: null,
+                createdAt: '2021-04-12T09:31:22.000Z',
+                editedAt: RECORDED_AT,
+                modelId: 'E3_Vitocal',
+                status: 'Online',
+                deviceType: 'heating',
+                roles: ['type:heatpump', 'type:product;Vitocal'],
+                isBoilerSerialEditable: false,
+                brand: 'Viessmann',
+                translationKey: 'vitocal'
+              },
+              features: HEAT_PUMP_FEATURES
+            }
+          ]
+        }
+      ]
+    }
+  ]
+};
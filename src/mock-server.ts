@@ -0,0 +1,639 @@
+import * as http from 'http';
+import * as crypto from 'crypto';
+import { AuthToken, CommandResult, Feature, ViessmannConfig } from './types';
+import { ValidationError, ViessmannError, ViessmannErrorBody } from './errors';
+import { validateParams } from './commands';
+import { queryFeatures } from './dump';
+import { patternToRegExp } from './cache';
+import { DEFAULT_FIXTURE, MockDevice, MockFixture, MockGateway, MockInstallation } from './mock-fixtures';
+
+/**
+ * Failure the mock server answers with instead of handling a request
+ */
+export type MockFault =
+  | { type: 'rateLimit'; /** Epoch ms in `extendedPayload.limitReset` (default: in one minute) */ limitReset?: number }
+  | { type: 'unauthorized' }
+  | { type: 'serverError'; /** HTTP status (default: 502) */ status?: number }
+  | { type: 'offline' };
+
+export interface MockFaultOptions {
+  /** Only fail requests whose path matches, `*` as wildcard (default: all `/iot/` requests) */
+  path?: string | RegExp;
+  /** Number of requests to fail (default: 1), `Infinity` until `clearFaults()` */
+  times?: number;
+}
+
+export interface MockCommand {
+  installationId: number;
+  gatewaySerial: string;
+  deviceId?: string;
+  feature: Feature;
+  command: string;
+  params: Record<string, unknown>;
+}
+
+export interface MockServerOptions {
+  /** Equipment and features to serve (default: `DEFAULT_FIXTURE`), copied so commands don't change it */
+  fixture?: MockFixture;
+  /** Port (default: 0, a free port) */
+  port?: number;
+  /** Interface to bind (default: 127.0.0.1) */
+  host?: string;
+  /** Only accept this client ID (default: any) */
+  clientId?: string;
+  /** Lifetime of access tokens in seconds (default: 3600) */
+  tokenLifetime?: number;
+  /** Issue a new refresh token on every refresh (default: false, the refresh token is kept) */
+  rotateRefreshTokens?: boolean;
+  /** Custom command handling, return true if the command was handled and the default effect should be skipped */
+  onCommand?: (command: MockCommand) => boolean | void;
+}
+
+/**
+ * A request the mock server answered
+ */
+export interface MockRequest {
+  method: string;
+  path: string;
+  query: Record<string, string[]>;
+  body: unknown;
+  status: number;
+}
+
+interface AuthorizationCode {
+  clientId: string;
+  redirectUri: string;
+  codeChallenge: string;
+  expiresAt: number;
+}
+
+interface Fault {
+  fault: MockFault;
+  path: RegExp | null;
+  remaining: number;
+}
+
+class HttpError extends Error {
+  constructor(
+    readonly status: number,
+    readonly body: ViessmannErrorBody | { error: string; error_description: string }
+  ) {
+    super(typeof (body as ViessmannErrorBody).message === 'string' ? (body as ViessmannErrorBody).message : `HTTP ${status}`);
+  }
+}
+
+interface Response {
+  status: number;
+  body?: unknown;
+  headers?: Record<string, string>;
+}
+
+const CODE_LIFETIME = 60 * 1000;
+
+function apiError(status: number, errorType: string, message: string, extendedPayload?: Record<string, unknown>): HttpError {
+  return new HttpError(status, {
+    viErrorId: crypto.randomBytes(8).toString('hex'),
+    statusCode: status,
+    errorType,
+    message,
+    extendedPayload
+  });
+}
+
+function oauthError(error: string, description: string, status = 400): HttpError {
+  return new HttpError(status, { error, error_description: description });
+}
+
+function randomToken(): string {
+  return crypto.randomBytes(24).toString('base64url');
+}
+
+function readBody(req: http.IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    let data = '';
+    req.setEncoding('utf-8');
+    req.on('data', chunk => {
+      data += chunk;
+    });
+    req.on('end', () => resolve(data));
+    req.on('error', reject);
+  });
+}
+
+/**
+ * Local stand-in for the Viessmann IoT v2 API and the IAM authorize/token endpoints,
+ * seeded from a fixture. Supports PKCE logins, refresh, token expiry, feature queries,
+ * validated commands and injected faults (429, 401, 5xx, offline devices).
+ */
+export class MockViessmannServer {
+  private fixture: MockFixture;
+  private server: http.Server | null = null;
+  private port: number;
+  private host: string;
+  private clientId?: string;
+  private tokenLifetime: number;
+  private rotateRefreshTokens: boolean;
+  private onCommand?: (command: MockCommand) => boolean | void;
+  private codes = new Map<string, AuthorizationCode>();
+  private accessTokens = new Map<string, number>();
+  private refreshTokens = new Set<string>();
+  private offlineDevices = new Set<string>();
+  private faults: Fault[] = [];
+  /** All answered requests, oldest first */
+  readonly requests: MockRequest[] = [];
+
+  constructor(options: MockServerOptions = {}) {
+    this.fixture = structuredClone(options.fixture || DEFAULT_FIXTURE);
+    this.port = options.port ?? 0;
+    this.host = options.host || '127.0.0.1';
+    this.clientId = options.clientId;
+    this.tokenLifetime = options.tokenLifetime ?? 3600;
+    this.rotateRefreshTokens = options.rotateRefreshTokens ?? false;
+    this.onCommand = options.onCommand;
+  }
+
+  /**
+   * Start listening, resolves once the port is bound
+   */
+  start(): Promise<void> {
+    if (this.server) return Promise.resolve();
+    const server = http.createServer((req, res) => {
+      this.handle(req, res).catch(error => {
+        res.writeHead(500, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ statusCode: 500, errorType: 'INTERNAL_SERVER_ERROR', message: (error as Error).message }));
+      });
+    });
+    return new Promise((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(this.port, this.host, () => {
+        this.server = server;
+        resolve();
+      });
+    });
+  }
+
+  stop(): Promise<void> {
+    const server = this.server;
+    this.server = null;
+    if (!server) return Promise.resolve();
+    return new Promise(resolve => {
+      server.close(() => resolve());
+      server.closeAllConnections();
+    });
+  }
+
+  /**
+   * Base URL of the server, use it as `apiUrl`
+   */
+  get url(): string {
+    const address = this.server?.address();
+    if (!address || typeof address !== 'object') {
+      throw new ViessmannError('Mock server is not running');
+    }
+    return `http://${this.host}:${address.port}`;
+  }
+
+  /**
+   * Use it as `iamUrl`
+   */
+  get iamUrl(): string {
+    return `${this.url}/idp/v3`;
+  }
+
+  /**
+   * Client config pointing at this server
+   */
+  clientConfig(): Pick<ViessmannConfig, 'apiUrl' | 'iamUrl'> {
+    return { apiUrl: this.url, iamUrl: this.iamUrl };
+  }
+
+  /**
+   * Issue a token directly, to skip the login in tests
+   */
+  issueToken(): AuthToken {
+    const token: AuthToken = {
+      access_token: randomToken(),
+      refresh_token: randomToken(),
+      expires_in: this.tokenLifetime,
+      token_type: 'Bearer'
+    };
+    this.accessTokens.set(token.access_token, Date.now() + this.tokenLifetime * 1000);
+    this.refreshTokens.add(token.refresh_token);
+    return token;
+  }
+
+  /**
+   * Let all issued access tokens expire, refresh tokens stay valid
+   */
+  expireTokens(): void {
+    for (const token of this.accessTokens.keys()) {
+      this.accessTokens.set(token, 0);
+    }
+  }
+
+  /**
+   * Revoke all access and refresh tokens
+   */
+  revokeTokens(): void {
+    this.accessTokens.clear();
+    this.refreshTokens.clear();
+  }
+
+  /**
+   * Fail the next matching requests
+   */
+  inject(fault: MockFault, options: MockFaultOptions = {}): this {
+    this.faults.push({
+      fault,
+      path: options.path ? patternToRegExp(options.path) : null,
+      remaining: options.times ?? 1
+    });
+    return this;
+  }
+
+  clearFaults(): void {
+    this.faults = [];
+  }
+
+  /**
+   * Take a device offline: its feature requests fail with `DEVICE_COMMUNICATION_ERROR`
+   */
+  setDeviceOffline(gatewaySerial: string, deviceId: string, offline = true): void {
+    const key = `${gatewaySerial}/${deviceId}`;
+    if (offline) this.offlineDevices.add(key);
+    else this.offlineDevices.delete(key);
+  }
+
+  /**
+   * Current state of a device feature, including changes made by commands
+   */
+  getFeature(gatewaySerial: string, deviceId: string, featureName: string): Feature | undefined {
+    for (const installation of this.fixture.installations) {
+      const device = this.findDevice(installation, gatewaySerial, deviceId);
+      const feature = device?.features.find(f => f.feature === featureName);
+      if (feature) return feature;
+    }
+    return undefined;
+  }
+
+  private async handle(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    const url = new URL(req.url || '/', 'http://localhost');
+    const rawBody = req.method === 'POST' ? await readBody(req) : '';
+    const query: Record<string, string[]> = {};
+    for (const key of new Set(url.searchParams.keys())) {
+      query[key] = url.searchParams.getAll(key);
+    }
+
+    let body: unknown = rawBody;
+    let response: Response;
+    try {
+      if (url.pathname.startsWith('/idp/v3/')) {
+        this.applyFault(url.pathname, false);
+        if (url.pathname === '/idp/v3/authorize' && req.method === 'GET') {
+          response = this.authorize(url.searchParams);
+        } else if (url.pathname === '/idp/v3/token' && req.method === 'POST') {
+          const form = new URLSearchParams(rawBody);
+          body = Object.fromEntries(form);
+          response = this.token(form, req.headers.authorization);
+        } else {
+          throw oauthError('not_found', `No IAM endpoint ${req.method} ${url.pathname}`, 404);
+        }
+      } else if (url.pathname.startsWith('/iot/v2/')) {
+        this.applyFault(url.pathname, true);
+        this.authenticate(req.headers.authorization);
+        if (rawBody) {
+          try {
+            body = JSON.parse(rawBody);
+          } catch {
+            throw apiError(400, 'VALIDATION_ERROR', 'Request body is not valid JSON');
+          }
+        }
+        response = this.api(req.method || 'GET', url, body);
+        if (req.method === 'GET' && response.status === 200) {
+          const etag = `W/"${crypto.createHash('sha1').update(JSON.stringify(response.body)).digest('hex')}"`;
+          response.headers = { ...response.headers, ETag: etag };
+          if (req.headers['if-none-match'] === etag) {
+            response = { status: 304, headers: { ETag: etag } };
+          }
+        }
+      } else {
+        throw apiError(404, 'NOT_FOUND', `No route ${req.method} ${url.pathname}`);
+      }
+    } catch (error) {
+      const httpError = error instanceof HttpError
+        ? error
+        : error instanceof ValidationError
+          ? apiError(400, 'VALIDATION_ERROR', error.message)
+          : apiError(500, 'INTERNAL_SERVER_ERROR', (error as Error).message);
+      response = { status: httpError.status, body: httpError.body };
+    }
+
+    this.requests.push({ method: req.method || 'GET', path: url.pathname, query, body, status: response.status });
+    const headers: Record<string, string> = { ...response.headers };
+    if (response.body !== undefined) headers['Content-Type'] = 'application/json';
+    res.writeHead(response.status, headers);
+    res.end(response.body !== undefined ? JSON.stringify(response.body) : undefined);
+  }
+
+  private applyFault(path: string, isApi: boolean): void {
+    const index = this.faults.findIndex(f => (f.path ? f.path.test(path) : isApi) && f.remaining > 0);
+    if (index < 0) return;
+    const entry = this.faults[index];
+    entry.remaining--;
+    if (entry.remaining <= 0) this.faults.splice(index, 1);
+
+    const fault = entry.fault;
+    switch (fault.type) {
+      case 'rateLimit':
+        throw apiError(429, 'RATE_LIMIT_EXCEEDED', 'API calls rate limit has been exceeded. Please wait until your limit will renew.', {
+          name: 'ViCare day limit',
+          requestCountLimit: 1450,
+          limitReset: fault.limitReset ?? Date.now() + 60 * 1000
+        });
+      case 'unauthorized':
+        throw apiError(401, 'EXPIRED TOKEN', 'Token has expired');
+      case 'serverError':
+        throw apiError(fault.status ?? 502, 'INTERNAL_SERVER_ERROR', 'Upstream service unavailable');
+      case 'offline':
+        throw this.offlineError();
+    }
+  }
+
+  private offlineError(): HttpError {
+    return apiError(400, 'DEVICE_COMMUNICATION_ERROR', 'Device communication error', { reason: 'GATEWAY_OFFLINE' });
+  }
+
+  // ============================================
+  // IAM
+  // ============================================
+
+  /**
+   * Approve every valid request right away and redirect back with a code
+   */
+  private authorize(params: URLSearchParams): Response {
+    const clientId = params.get('client_id');
+    const redirectUri = params.get('redirect_uri');
+    const codeChallenge = params.get('code_challenge');
+    if (!clientId || (this.clientId && clientId !== this.clientId)) {
+      throw oauthError('invalid_client', 'Unknown client_id');
+    }
+    if (!redirectUri) {
+      throw oauthError('invalid_request', 'redirect_uri is required');
+    }
+    if (params.get('response_type') !== 'code') {
+      throw oauthError('unsupported_response_type', 'Only response_type=code is supported');
+    }
+    if (!codeChallenge || params.get('code_challenge_method') !== 'S256') {
+      throw oauthError('invalid_request', 'PKCE with code_challenge_method=S256 is required');
+    }
+
+    const code = randomToken();
+    this.codes.set(code, { clientId, redirectUri, codeChallenge, expiresAt: Date.now() + CODE_LIFETIME });
+    const location = new URL(redirectUri);
+    location.searchParams.set('code', code);
+    const state = params.get('state');
+    if (state) location.searchParams.set('state', state);
+    return { status: 302, headers: { Location: location.toString() } };
+  }
+
+  private token(form: URLSearchParams, authorization?: string): Response {
+    const grantType = form.get('grant_type');
+    const clientId = form.get('client_id')
+      || (authorization?.startsWith('Basic ')
+        ? Buffer.from(authorization.slice(6), 'base64').toString().split(':')[0]
+        : undefined);
+    if (!clientId || (this.clientId && clientId !== this.clientId)) {
+      throw oauthError('invalid_client', 'Unknown client_id', 401);
+    }
+
+    if (grantType === 'authorization_code') {
+      const code = this.codes.get(form.get('code') || '');
+      this.codes.delete(form.get('code') || '');
+      if (!code || code.expiresAt < Date.now()) {
+        throw oauthError('invalid_grant', 'Authorization code is invalid or expired');
+      }
+      if (code.clientId !== clientId || code.redirectUri !== form.get('redirect_uri')) {
+        throw oauthError('invalid_grant', 'client_id or redirect_uri does not match the authorization request');
+      }
+      const verifier = form.get('code_verifier') || '';
+      const challenge = crypto.createHash('sha256').update(verifier).digest('base64url');
+      if (challenge !== code.codeChallenge) {
+        throw oauthError('invalid_grant', 'PKCE verification failed');
+      }
+      return { status: 200, body: this.issueToken() };
+    }
+
+    if (grantType === 'refresh_token') {
+      const refreshToken = form.get('refresh_token') || '';
+      if (!this.refreshTokens.has(refreshToken)) {
+        throw oauthError('invalid_grant', 'Refresh token is invalid or revoked');
+      }
+      const token = this.issueToken();
+      this.refreshTokens.delete(token.refresh_token);
+      if (this.rotateRefreshTokens) {
+        this.refreshTokens.delete(refreshToken);
+        this.refreshTokens.add(token.refresh_token);
+        return { status: 200, body: token };
+      }
+      const { refresh_token: _unused, ...withoutRefresh } = token;
+      return { status: 200, body: withoutRefresh };
+    }
+
+    if (grantType === 'password') {
+      if (!form.get('username') || !form.get('password')) {
+        throw oauthError('invalid_grant', 'Username and password are required');
+      }
+      return { status: 200, body: this.issueToken() };
+    }
+
+    throw oauthError('unsupported_grant_type', `Grant type ${grantType} is not supported`);
+  }
+
+  private authenticate(authorization?: string): void {
+    const token = authorization?.startsWith('Bearer ') ? authorization.slice(7) : undefined;
+    const expiresAt = token ? this.accessTokens.get(token) : undefined;
+    if (expiresAt === undefined) {
+      throw apiError(401, 'TOKEN_INVALID', 'Token is invalid');
+    }
+    if (expiresAt <= Date.now()) {
+      throw apiError(401, 'EXPIRED TOKEN', 'Token has expired');
+    }
+  }
+
+  // ============================================
+  // IoT v2
+  // ============================================
+
+  private api(method: string, url: URL, body: unknown): Response {
+    const parts = url.pathname.split('/').slice(3).map(decodeURIComponent);
+    const [area, installations, installationId, ...rest] = parts;
+    if ((area !== 'equipment' && area !== 'features') || installations !== 'installations') {
+      throw apiError(404, 'NOT_FOUND', `No route ${method} ${url.pathname}`);
+    }
+
+    if (area === 'equipment') {
+      if (method !== 'GET') throw apiError(405, 'METHOD_NOT_ALLOWED', `${method} is not supported`);
+      return { status: 200, body: { data: this.equipment(installationId, rest, url.searchParams) } };
+    }
+
+    const installation = this.getInstallation(installationId);
+    let gateway: MockGateway | undefined;
+    let device: MockDevice | undefined;
+    let features = installation.features || [];
+    let route = rest;
+    if (route[0] === 'gateways') {
+      gateway = this.getGateway(installation, route[1]);
+      features = gateway.features || [];
+      route = route.slice(2);
+      if (route[0] === 'devices') {
+        device = this.getDevice(gateway, route[1]);
+        if (this.offlineDevices.has(`${gateway.gateway.serial}/${device.device.id}`)) {
+          throw this.offlineError();
+        }
+        features = device.features;
+        route = route.slice(2);
+      } else if (url.searchParams.get('includeDevicesFeatures') === 'true') {
+        features = [...features, ...gateway.devices.flatMap(d => d.features)];
+      }
+    }
+    if (route[0] !== 'features') {
+      throw apiError(404, 'NOT_FOUND', `No route ${method} ${url.pathname}`);
+    }
+
+    const [, featureName, commands, commandName] = route;
+    if (!featureName) {
+      if (method !== 'GET') throw apiError(405, 'METHOD_NOT_ALLOWED', `${method} is not supported`);
+      const filter = [...url.searchParams.getAll('filter'), ...url.searchParams.getAll('filter[]')]
+        .flatMap(value => value.split(','))
+        .filter(Boolean);
+      return {
+        status: 200,
+        body: {
+          data: queryFeatures(features, {
+            filter: filter.length > 0 ? filter : undefined,
+            regex: url.searchParams.get('regex') || undefined,
+            skipDisabled: url.searchParams.get('skipDisabled') === 'true'
+          })
+        }
+      };
+    }
+
+    const feature = features.find(f => f.feature === featureName);
+    if (!feature) {
+      throw apiError(404, 'FEATURE_NOT_FOUND', `Feature ${featureName} not found`);
+    }
+    if (!commands) {
+      if (method !== 'GET') throw apiError(405, 'METHOD_NOT_ALLOWED', `${method} is not supported`);
+      return { status: 200, body: { data: feature } };
+    }
+    if (commands !== 'commands' || !commandName || method !== 'POST') {
+      throw apiError(404, 'NOT_FOUND', `No route ${method} ${url.pathname}`);
+    }
+
+    const params = validateParams(feature, commandName, (body || {}) as Record<string, unknown>);
+    const handled = this.onCommand?.({
+      installationId: installation.installation.id,
+      gatewaySerial: gateway?.gateway.serial ?? '',
+      deviceId: device?.device.id,
+      feature,
+      command: commandName,
+      params
+    });
+    if (!handled) {
+      applyCommand(feature, commandName, params);
+    }
+    feature.timestamp = new Date().toISOString();
+    const result: CommandResult = { success: true, reason: 'COMMAND_EXECUTION_SUCCESS' };
+    return { status: 200, body: { data: result } };
+  }
+
+  private equipment(installationId: string | undefined, rest: string[], params: URLSearchParams): unknown {
+    const withDevices = (gateway: MockGateway) => ({ ...gateway.gateway, devices: gateway.devices.map(d => this.deviceData(gateway, d)) });
+    const withGateways = (installation: MockInstallation) => params.get('includeGateways') === 'true'
+      ? { ...installation.installation, gateways: installation.gateways.map(withDevices) }
+      : installation.installation;
+
+    if (installationId === undefined) {
+      return this.fixture.installations.map(withGateways);
+    }
+    const installation = this.getInstallation(installationId);
+    const [gateways, serial, sub] = rest;
+    if (gateways === undefined) return withGateways(installation);
+    if (gateways === 'status') return { aggregatedStatus: installation.installation.aggregatedStatus };
+    if (gateways !== 'gateways') throw apiError(404, 'NOT_FOUND', `No route ${rest.join('/')}`);
+    if (serial === undefined) {
+      return installation.gateways.map(gateway => params.get('includeDevices') === 'true' ? withDevices(gateway) : gateway.gateway);
+    }
+    const gateway = this.getGateway(installation, serial);
+    if (sub === undefined) return gateway.gateway;
+    if (sub === 'devices') return gateway.devices.map(d => this.deviceData(gateway, d));
+    if (sub === 'status') return { aggregatedStatus: gateway.gateway.aggregatedStatus, status: 'online' };
+    throw apiError(404, 'NOT_FOUND', `No route ${rest.join('/')}`);
+  }
+
+  private deviceData(gateway: MockGateway, device: MockDevice) {
+    const offline = this.offlineDevices.has(`${gateway.gateway.serial}/${device.device.id}`);
+    return offline ? { ...device.device, status: 'Offline' as const } : device.device;
+  }
+
+  private getInstallation(id: string | undefined): MockInstallation {
+    const installation = this.fixture.installations.find(i => String(i.installation.id) === id);
+    if (!installation) throw apiError(404, 'INSTALLATION_NOT_FOUND', `Installation ${id} not found`);
+    return installation;
+  }
+
+  private getGateway(installation: MockInstallation, serial: string | undefined): MockGateway {
+    const gateway = installation.gateways.find(g => g.gateway.serial === serial);
+    if (!gateway) throw apiError(404, 'GATEWAY_NOT_FOUND', `Gateway ${serial} not found`);
+    return gateway;
+  }
+
+  private getDevice(gateway: MockGateway, deviceId: string | undefined): MockDevice {
+    const device = gateway.devices.find(d => d.device.id === deviceId);
+    if (!device) throw apiError(404, 'DEVICE_NOT_FOUND', `Device ${deviceId} not found`);
+    return device;
+  }
+
+  private findDevice(installation: MockInstallation, gatewaySerial: string, deviceId: string): MockDevice | undefined {
+    return installation.gateways.find(g => g.gateway.serial === gatewaySerial)?.devices.find(d => d.device.id === deviceId);
+  }
+}
+
+/**
+ * Property a command param is written to when no property has the param's name
+ */
+const PARAM_PROPERTIES: Record<string, string[]> = {
+  targetTemperature: ['temperature', 'value'],
+  temperature: ['temperature', 'value'],
+  mode: ['value'],
+  newSchedule: ['entries']
+};
+
+/**
+ * Default effect of a command on the feature: `activate`/`deactivate` toggle `active`,
+ * holiday `schedule`/`unschedule` set the period, other params are written to the
+ * property of the same name (or e.g. `targetTemperature` to `temperature`)
+ */
+function applyCommand(feature: Feature, command: string, params: Record<string, unknown>): void {
+  const set = (name: string, value: unknown) => {
+    const property = feature.properties[name];
+    if (property) (property as { value: unknown }).value = value;
+  };
+
+  if (command === 'activate') set('active', true);
+  if (command === 'deactivate') set('active', false);
+  if (command === 'unschedule') {
+    set('active', false);
+    set('start', '');
+    set('end', '');
+    return;
+  }
+  if (command === 'schedule' && typeof params.start === 'string') {
+    set('active', params.start <= new Date().toISOString().slice(0, 10));
+  }
+
+  for (const [name, value] of Object.entries(params)) {
+    const target = feature.properties[name] ? name : PARAM_PROPERTIES[name]?.find(p => feature.properties[p]);
+    if (target) set(target, value);
+  }
+}
@@ -0,0 +1,613 @@
+import { EventEmitter } from 'events';
+import type { ViessmannClient } from './client';
+import { Feature } from './types';
+import { DeviceOfflineError, reportError, ValidationError } from './errors';
+import { FeatureCache, patternToRegExp } from './cache';
+import { describeCommand } from './commands';
+import { findFeature, getString } from './features';
+
+export interface MqttPublishOptions {
+  retain?: boolean;
+  qos?: 0 | 1 | 2;
+}
+
+export type MqttMessageListener = (topic: string, payload: Buffer) => void;
+
+/**
+ * The part of an MQTT client the bridge uses, compatible with `mqtt.connect()` from the mqtt package
+ */
+export interface MqttConnection {
+  publish(topic: string, message: string, options?: MqttPublishOptions): unknown;
+  subscribe(topic: string | string[]): unknown;
+  unsubscribe(topic: string | string[]): unknown;
+  on(event: 'message', listener: MqttMessageListener): unknown;
+  off(event: 'message', listener: MqttMessageListener): unknown;
+}
+
+export interface MqttBridgeOptions {
+  /** Root of all topics (default: `viessmann`) */
+  baseTopic?: string;
+  /** Home Assistant discovery prefix (default: `homeassistant`), `false` disables discovery */
+  discoveryPrefix?: string | false;
+  /** Features to publish and accept commands for, `*` as wildcard (default: all) */
+  features?: (string | RegExp)[];
+  /** Poll interval in ms (default: 5 minutes) */
+  interval?: number;
+  /** Where errors go while nobody listens to `error` (default: `console.error`) */
+  log?: (message: string) => void;
+}
+
+export interface BridgeCommand {
+  installationId: number;
+  gatewaySerial: string;
+  deviceId: string;
+  feature: string;
+  command: string;
+  params: Record<string, unknown>;
+}
+
+export interface MqttBridgeEvents {
+  /** Feature states of a device were published */
+  published: [device: string, features: number];
+  /** A `.../set` message was executed */
+  command: [command: BridgeCommand];
+  error: [error: Error, topic?: string];
+}
+
+export interface MqttBridge {
+  on<E extends keyof MqttBridgeEvents>(event: E, listener: (...args: MqttBridgeEvents[E]) => void): this;
+  once<E extends keyof MqttBridgeEvents>(event: E, listener: (...args: MqttBridgeEvents[E]) => void): this;
+  off<E extends keyof MqttBridgeEvents>(event: E, listener: (...args: MqttBridgeEvents[E]) => void): this;
+  emit<E extends keyof MqttBridgeEvents>(event: E, ...args: MqttBridgeEvents[E]): boolean;
+}
+
+interface BridgedDevice {
+  installationId: number;
+  gatewaySerial: string;
+  deviceId: string;
+  name: string;
+  /** Device part of the topics, see `updateSegments()` */
+  segment: string;
+  features: Feature[];
+  /** Last published payload per feature, to skip unchanged states */
+  published: Map<string, string>;
+  discovered: Set<string>;
+  online?: boolean;
+}
+
+/**
+ * Viessmann units mapped to Home Assistant units and device classes
+ */
+const UNITS: Record<string, { unit: string; deviceClass?: string }> = {
+  celsius: { unit: '°C', deviceClass: 'temperature' },
+  kelvin: { unit: 'K' },
+  percent: { unit: '%' },
+  bar: { unit: 'bar', deviceClass: 'pressure' },
+  hour: { unit: 'h', deviceClass: 'duration' },
+  hours: { unit: 'h', deviceClass: 'duration' },
+  watt: { unit: 'W', deviceClass: 'power' },
+  kilowatt: { unit: 'kW', deviceClass: 'power' },
+  wattHour: { unit: 'Wh', deviceClass: 'energy' },
+  kilowattHour: { unit: 'kWh', deviceClass: 'energy' },
+  liter: { unit: 'L', deviceClass: 'volume' },
+  litersPerHour: { unit: 'L/h', deviceClass: 'volume_flow_rate' },
+  cubicMeter: { unit: 'm³', deviceClass: 'volume' },
+  cubicMeterPerHour: { unit: 'm³/h', deviceClass: 'volume_flow_rate' },
+  revolutionsPerSecond: { unit: 'rps' }
+};
+
+/** Home Assistant climate modes and the Viessmann modes they stand for, first available wins */
+const CLIMATE_MODES: Record<string, string[]> = {
+  off: ['standby'],
+  heat: ['heating', 'dhwAndHeating'],
+  cool: ['cooling', 'dhwAndHeatingCooling'],
+  auto: ['heatingCooling']
+};
+
+/** Home Assistant water heater modes and the Viessmann DHW modes they stand for */
+const WATER_HEATER_MODES: Record<string, string[]> = {
+  off: ['off'],
+  eco: ['efficient', 'efficientWithMinComfort'],
+  heat_pump: ['balanced'],
+  performance: ['comfort']
+};
+
+/**
+ * Home Assistant object ids only allow `[a-zA-Z0-9_-]`
+ */
+function objectId(...parts: (string | number)[]): string {
+  return parts.map(part => String(part).replace(/[^a-zA-Z0-9_-]/g, '_')).join('_');
+}
+
+function toPayload(feature: Feature): string {
+  const values: Record<string, unknown> = {};
+  for (const [name, property] of Object.entries(feature.properties || {})) {
+    values[name] = property.value;
+  }
+  return JSON.stringify(values);
+}
+
+/**
+ * Map Home Assistant modes to the device modes available on a feature with a `setMode` command
+ */
+function modeMapping(feature: Feature | undefined, modes: Record<string, string[]>): Record<string, string> {
+  const available = feature && feature.commands?.setMode
+    ? describeCommand(feature, 'setMode').params.find(param => param.name === 'mode')?.constraints?.enum || []
+    : [];
+  const mapping: Record<string, string> = {};
+  for (const [haMode, candidates] of Object.entries(modes)) {
+    const match = candidates.find(mode => available.includes(mode));
+    if (match) mapping[haMode] = match;
+  }
+  return mapping;
+}
+
+function modeTemplates(mapping: Record<string, string>, fallback: string): Record<string, unknown> {
+  const reverse = Object.fromEntries(Object.entries(mapping).map(([haMode, mode]) => [mode, haMode]));
+  return {
+    modes: Object.keys(mapping),
+    mode_command_template: `{{ ${JSON.stringify(mapping)}[value] }}`,
+    mode_state_template: `{{ ${JSON.stringify(reverse)}.get(value_json.value, '${fallback}') }}`
+  };
+}
+
+/**
+ * Publishes device features to MQTT, announces them to Home Assistant and turns
+ * `<baseTopic>/<installation>/<device>/<feature>/<command>/set` messages into validated commands.
+ *
+ * Topics:
+ * - `<baseTopic>/<installation>/<device>/<feature>`: JSON of all property values (retained)
+ * - `<baseTopic>/<installation>/<device>/availability`: `online` / `offline`
+ * - `<baseTopic>/<installation>/<device>/<feature>/<command>/error`: why a `set` message was rejected
+ * - `<baseTopic>/bridge/status`: `online` / `offline`
+ *
+ * `<device>` is the device id, or `<gatewaySerial>-<deviceId>` when devices of several gateways
+ * of one installation are bridged.
+ */
+export class MqttBridge extends EventEmitter {
+  private devices = new Map<string, BridgedDevice>();
+  private baseTopic: string;
+  private discoveryPrefix: string | false;
+  private patterns: RegExp[] | null;
+  private interval: number;
+  private log: (message: string) => void;
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+  private readonly onMessage: MqttMessageListener = (topic, payload) => {
+    this.handleMessage(topic, payload.toString()).catch(error => {
+      const err = reportError(this, this.log, `MqttBridge ${topic}`, error, topic);
+      // The sender can't see the event, answer next to the set topic
+      this.mqtt.publish(`${topic.slice(0, -'/set'.length)}/error`, JSON.stringify({ error: err.name, message: err.message }));
+    });
+  };
+
+  constructor(
+    private client: ViessmannClient,
+    private mqtt: MqttConnection,
+    options: MqttBridgeOptions = {}
+  ) {
+    super();
+    this.baseTopic = (options.baseTopic || 'viessmann').replace(/\/+$/, '');
+    this.discoveryPrefix = options.discoveryPrefix ?? 'homeassistant';
+    this.patterns = options.features ? options.features.map(patternToRegExp) : null;
+    this.interval = options.interval ?? 5 * 60 * 1000;
+    this.log = options.log || (message => console.error(message));
+  }
+
+  addDevice(installationId: number, gatewaySerial: string, deviceId: string, name?: string): this {
+    const key = FeatureCache.key(installationId, gatewaySerial, deviceId);
+    if (!this.devices.has(key)) {
+      this.devices.set(key, {
+        installationId,
+        gatewaySerial,
+        deviceId,
+        name: name || `Viessmann ${gatewaySerial} ${deviceId}`,
+        segment: deviceId,
+        features: [],
+        published: new Map(),
+        discovered: new Set()
+      });
+      this.updateSegments(installationId);
+    }
+    return this;
+  }
+
+  get isRunning(): boolean {
+    return this.running;
+  }
+
+  /**
+   * Subscribe to `.../set` topics and start polling, the first poll runs immediately
+   */
+  start(): this {
+    if (this.running) return this;
+    this.running = true;
+    this.mqtt.on('message', this.onMessage);
+    this.mqtt.subscribe(`${this.baseTopic}/+/+/+/+/set`);
+    this.mqtt.publish(`${this.baseTopic}/bridge/status`, 'online', { retain: true });
+    this.schedule(0);
+    return this;
+  }
+
+  stop(): void {
+    if (!this.running) return;
+    this.running = false;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    this.mqtt.unsubscribe(`${this.baseTopic}/+/+/+/+/set`);
+    this.mqtt.off('message', this.onMessage);
+    this.mqtt.publish(`${this.baseTopic}/bridge/status`, 'offline', { retain: true });
+  }
+
+  /**
+   * Fetch and publish the features of all devices once
+   */
+  async poll(): Promise<void> {
+    for (const device of this.devices.values()) {
+      await this.refresh(device);
+    }
+  }
+
+  /**
+   * Topic of a feature state
+   */
+  featureTopic(installationId: number, gatewaySerial: string, deviceId: string, featureName: string): string {
+    const device = this.devices.get(FeatureCache.key(installationId, gatewaySerial, deviceId));
+    return `${this.baseTopic}/${installationId}/${device?.segment ?? deviceId}/${featureName}`;
+  }
+
+  /**
+   * Device ids repeat per gateway (`0` on each), so once devices of several gateways of one
+   * installation are bridged, all of them use `<serial>-<device>`. Devices that already published
+   * under the short segment have their retained topics cleared and are announced again.
+   */
+  private updateSegments(installationId: number): void {
+    const devices = Array.from(this.devices.values()).filter(device => device.installationId === installationId);
+    const multiGateway = new Set(devices.map(device => device.gatewaySerial)).size > 1;
+    for (const device of devices) {
+      const segment = multiGateway ? `${device.gatewaySerial}-${device.deviceId}` : device.deviceId;
+      if (segment === device.segment) continue;
+      this.clearRetained(device);
+      device.segment = segment;
+    }
+  }
+
+  /**
+   * Remove the retained state and availability of a device and forget what was published
+   */
+  private clearRetained(device: BridgedDevice): void {
+    for (const featureName of device.published.keys()) {
+      this.mqtt.publish(this.featureTopic(device.installationId, device.gatewaySerial, device.deviceId, featureName), '', { retain: true });
+    }
+    if (device.online !== undefined) {
+      this.mqtt.publish(this.availabilityTopic(device), '', { retain: true });
+    }
+    device.published.clear();
+    device.discovered.clear();
+    device.online = undefined;
+  }
+
+  private availabilityTopic(device: BridgedDevice): string {
+    return `${this.baseTopic}/${device.installationId}/${device.segment}/availability`;
+  }
+
+  private schedule(delay: number): void {
+    this.timer = setTimeout(async () => {
+      await this.poll();
+      if (this.running) this.schedule(this.interval);
+    }, delay);
+  }
+
+  private async refresh(device: BridgedDevice): Promise<void> {
+    const availability = this.availabilityTopic(device);
+    try {
+      const response = await this.client.getDeviceFeatures(device.installationId, device.gatewaySerial, device.deviceId);
+      device.features = response.data.filter(feature => feature.isEnabled && this.isSelected(feature.feature));
+    } catch (error) {
+      if (error instanceof DeviceOfflineError && device.online !== false) {
+        device.online = false;
+        this.mqtt.publish(availability, 'offline', { retain: true });
+      } else if (!(error instanceof DeviceOfflineError)) {
+        reportError(this, this.log, `MqttBridge ${FeatureCache.key(device.installationId, device.gatewaySerial, device.deviceId)}`, error);
+      }
+      return;
+    }
+
+    if (device.online !== true) {
+      device.online = true;
+      this.mqtt.publish(availability, 'online', { retain: true });
+    }
+    if (this.discoveryPrefix !== false) {
+      this.publishDiscovery(device, this.discoveryPrefix);
+    }
+
+    let published = 0;
+    for (const feature of device.features) {
+      const payload = toPayload(feature);
+      if (device.published.get(feature.feature) === payload) continue;
+      device.published.set(feature.feature, payload);
+      this.mqtt.publish(this.featureTopic(device.installationId, device.gatewaySerial, device.deviceId, feature.feature), payload, { retain: true });
+      published++;
+    }
+    this.emit('published', FeatureCache.key(device.installationId, device.gatewaySerial, device.deviceId), published);
+  }
+
+  /**
+   * Execute a `<baseTopic>/<installation>/<device>/<feature>/<command>/set` message.
+   * The payload is a JSON object of params, or a single value for commands with one param.
+   */
+  private async handleMessage(topic: string, message: string): Promise<void> {
+    if (!topic.startsWith(`${this.baseTopic}/`) || !topic.endsWith('/set')) return;
+    const parts = topic.slice(this.baseTopic.length + 1).split('/');
+    if (parts.length !== 5) return;
+    const [installationId, segment, featureName, commandName] = parts;
+
+    const device = Array.from(this.devices.values())
+      .find(d => String(d.installationId) === installationId && d.segment === segment);
+    if (!device) {
+      throw new ValidationError(`Unknown device ${installationId}/${segment}`);
+    }
+    if (!this.isSelected(featureName)) {
+      throw new ValidationError(`Feature ${featureName} is not bridged`);
+    }
+
+    const feature = findFeature(device.features, featureName);
+    const params = this.parseParams(feature, featureName, commandName, message);
+    await this.client.executeDeviceFeatureCommand(
+      device.installationId,
+      device.gatewaySerial,
+      device.deviceId,
+      featureName,
+      commandName,
+      params,
+      { feature, validate: true }
+    );
+    this.emit('command', {
+      installationId: device.installationId,
+      gatewaySerial: device.gatewaySerial,
+      deviceId: device.deviceId,
+      feature: featureName,
+      command: commandName,
+      params
+    });
+    await this.refresh(device);
+  }
+
+  private parseParams(feature: Feature | undefined, featureName: string, commandName: string, message: string): Record<string, unknown> {
+    let value: unknown = message;
+    try {
+      value = JSON.parse(message);
+    } catch {
+      // Plain strings like `heating` are sent as they are
+    }
+    if (value !== null && typeof value === 'object' && !Array.isArray(value)) {
+      return value as Record<string, unknown>;
+    }
+    if (message.trim() === '') return {};
+
+    if (!feature) {
+      throw new ValidationError(`Feature ${featureName} is not available, send params as a JSON object`);
+    }
+    const params = describeCommand(feature, commandName).params;
+    if (params.length !== 1) {
+      throw new ValidationError(`Command ${commandName} of ${featureName} takes ${params.length} params, send them as a JSON object`);
+    }
+    return { [params[0].name]: value };
+  }
+
+  private publishDiscovery(device: BridgedDevice, prefix: string): void {
+    const deviceKey = objectId(device.installationId, device.gatewaySerial, device.deviceId);
+    const haDevice = {
+      identifiers: [`viessmann_${deviceKey}`],
+      name: device.name,
+      manufacturer: 'Viessmann',
+      serial_number: device.gatewaySerial
+    };
+    const common = {
+      device: haDevice,
+      availability: [
+        { topic: `${this.baseTopic}/bridge/status` },
+        { topic: this.availabilityTopic(device) }
+      ],
+      availability_mode: 'all'
+    };
+    const announce = (component: string, id: string, config: Record<string, unknown>) => {
+      const uniqueId = `viessmann_${deviceKey}_${id}`;
+      if (device.discovered.has(uniqueId)) return;
+      device.discovered.add(uniqueId);
+      this.mqtt.publish(
+        `${prefix}/${component}/${uniqueId}/config`,
+        JSON.stringify({ ...common, unique_id: uniqueId, object_id: uniqueId, ...config }),
+        { retain: true }
+      );
+    };
+    const topic = (featureName: string) => this.featureTopic(device.installationId, device.gatewaySerial, device.deviceId, featureName);
+    const commandTopic = (featureName: string, commandName: string) => `${topic(featureName)}/${commandName}/set`;
+
+    for (const feature of device.features) {
+      for (const [name, property] of Object.entries(feature.properties || {})) {
+        const id = objectId(feature.feature, name);
+        const label = name === 'value' ? feature.feature : `${feature.feature} ${name}`;
+        if (property.type === 'boolean') {
+          announce('binary_sensor', id, {
+            name: label,
+            state_topic: topic(feature.feature),
+            value_template: `{{ 'ON' if value_json.${name} else 'OFF' }}`
+          });
+        } else if (property.type === 'number') {
+          const unit = property.unit ? UNITS[property.unit] : undefined;
+          const counter = /\.statistics$/.test(feature.feature);
+          announce('sensor', id, {
+            name: label,
+            state_topic: topic(feature.feature),
+            value_template: `{{ value_json.${name} }}`,
+            unit_of_measurement: unit?.unit ?? (property.unit || undefined),
+            device_class: unit?.deviceClass,
+            state_class: counter ? 'total_increasing' : 'measurement'
+          });
+        } else if (property.type === 'string') {
+          announce('sensor', id, {
+            name: label,
+            state_topic: topic(feature.feature),
+            value_template: `{{ value_json.${name} }}`
+          });
+        }
+      }
+    }
+
+    for (const feature of device.features) {
+      const circuit = /^heating\.circuits\.(\d+)$/.exec(feature.feature)?.[1];
+      if (circuit === undefined) continue;
+      const base = `heating.circuits.${circuit}`;
+      const normal = findFeature(device.features, `${base}.operating.programs.normal`);
+      if (!normal?.commands?.setTemperature) continue;
+
+      const constraints = describeCommand(normal, 'setTemperature').params.find(param => param.type === 'number')?.constraints;
+      const room = findFeature(device.features, `${base}.sensors.temperature.room`);
+      const modes = findFeature(device.features, `${base}.operating.modes.active`);
+      const mapping = modeMapping(modes, CLIMATE_MODES);
+      announce('climate', objectId(base), {
+        name: getString(feature, 'name') || `Heating circuit ${circuit}`,
+        temperature_unit: 'C',
+        min_temp: constraints?.min,
+        max_temp: constraints?.max,
+        temp_step: constraints?.stepping,
+        temperature_state_topic: topic(normal.feature),
+        temperature_state_template: '{{ value_json.temperature }}',
+        temperature_command_topic: commandTopic(normal.feature, 'setTemperature'),
+        current_temperature_topic: room ? topic(room.feature) : undefined,
+        current_temperature_template: room ? '{{ value_json.value }}' : undefined,
+        ...(Object.keys(mapping).length > 0
+          ? {
+            ...modeTemplates(mapping, 'heat'),
+            mode_state_topic: topic(modes!.feature),
+            mode_command_topic: commandTopic(modes!.feature, 'setMode')
+          }
+          : { modes: ['heat'] })
+      });
+    }
+
+    const dhw = findFeature(device.features, 'heating.dhw.temperature.main');
+    if (dhw?.commands?.setTargetTemperature) {
+      const constraints = describeCommand(dhw, 'setTargetTemperature').params.find(param => param.type === 'number')?.constraints;
+      const storage = findFeature(device.features, 'heating.dhw.sensors.temperature.hotWaterStorage');
+      const modes = findFeature(device.features, 'heating.dhw.operating.modes.active');
+      const mapping = modeMapping(modes, WATER_HEATER_MODES);
+      announce('water_heater', 'heating_dhw', {
+        name: 'Hot water',
+        temperature_unit: 'C',
+        min_temp: constraints?.min,
+        max_temp: constraints?.max,
+        precision: constraints?.stepping === 1 ? 1 : 0.5,
+        temperature_state_topic: topic(dhw.feature),
+        temperature_state_template: '{{ value_json.value }}',
+        temperature_command_topic: commandTopic(dhw.feature, 'setTargetTemperature'),
+        current_temperature_topic: storage ? topic(storage.feature) : undefined,
+        current_temperature_template: storage ? '{{ value_json.value }}' : undefined,
+        ...(Object.keys(mapping).length > 0
+          ? {
+            ...modeTemplates(mapping, 'heat_pump'),
+            mode_state_topic: topic(modes!.feature),
+            mode_command_topic: commandTopic(modes!.feature, 'setMode')
+          }
+          : { modes: ['heat_pump'] })
+      });
+    }
+  }
+
+  private isSelected(featureName: string): boolean {
+    return !this.patterns || this.patterns.some(pattern => pattern.test(featureName));
+  }
+}
+
+/**
+ * Match an MQTT topic against a subscription with `+` and `#` wildcards
+ */
+export function matchTopic(filter: string, topic: string): boolean {
+  const filterParts = filter.split('/');
+  const topicParts = topic.split('/');
+  for (let i = 0; i < filterParts.length; i++) {
+    if (filterParts[i] === '#') return true;
+    if (i >= topicParts.length) return false;
+    if (filterParts[i] !== '+' && filterParts[i] !== topicParts[i]) return false;
+  }
+  return filterParts.length === topicParts.length;
+}
+
+/**
+ * In-process broker stand-in for tests and local setups: keeps retained messages
+ * and delivers publishes to all connections with a matching subscription
+ */
+export class MemoryMqttBroker {
+  readonly retained = new Map<string, string>();
+  private connections = new Set<MemoryMqttConnection>();
+
+  connect(): MemoryMqttConnection {
+    const connection = new MemoryMqttConnection(this);
+    this.connections.add(connection);
+    return connection;
+  }
+
+  /** @internal */
+  deliver(topic: string, message: string, options: MqttPublishOptions = {}): void {
+    if (options.retain) {
+      if (message === '') this.retained.delete(topic);
+      else this.retained.set(topic, message);
+    }
+    for (const connection of this.connections) {
+      connection.receive(topic, message);
+    }
+  }
+
+  /** @internal */
+  disconnect(connection: MemoryMqttConnection): void {
+    this.connections.delete(connection);
+  }
+}
+
+export class MemoryMqttConnection extends EventEmitter implements MqttConnection {
+  private subscriptions = new Set<string>();
+  /** Everything published through this connection, oldest first */
+  readonly sent: { topic: string; message: string; retain: boolean }[] = [];
+
+  constructor(private broker: MemoryMqttBroker) {
+    super();
+  }
+
+  publish(topic: string, message: string, options: MqttPublishOptions = {}): this {
+    this.sent.push({ topic, message, retain: !!options.retain });
+    this.broker.deliver(topic, message, options);
+    return this;
+  }
+
+  subscribe(topic: string | string[]): this {
+    for (const filter of Array.isArray(topic) ? topic : [topic]) {
+      this.subscriptions.add(filter);
+      for (const [retainedTopic, message] of this.broker.retained) {
+        if (matchTopic(filter, retainedTopic)) this.emit('message', retainedTopic, Buffer.from(message));
+      }
+    }
+    return this;
+  }
+
+  unsubscribe(topic: string | string[]): this {
+    for (const filter of Array.isArray(topic) ? topic : [topic]) {
+      this.subscriptions.delete(filter);
+    }
+    return this;
+  }
+
+  end(): void {
+    this.subscriptions.clear();
+    this.broker.disconnect(this);
+  }
+
+  /** @internal */
+  receive(topic: string, message: string): void {
+    if (Array.from(this.subscriptions).some(filter => matchTopic(filter, topic))) {
+      this.emit('message', topic, Buffer.from(message));
+    }
+  }
+}
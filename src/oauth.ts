@@ -1,6 +1,8 @@
 import * as crypto from 'crypto';
 import * as http from 'http';
+import * as readline from 'readline';
 import { URL } from 'url';
+import { AuthenticationError, ViessmannError } from './errors';
 
 export interface PKCEChallenge {
   codeVerifier: string;
@@ -12,6 +14,8 @@ export interface AuthorizationURLParams {
   redirectUri: string;
   scope: string;
   state?: string;
+  /** IAM base URL (default: `DEFAULT_IAM_URL`) */
+  iamUrl?: string;
 }
 
 export interface TokenResponse {
@@ -44,6 +48,11 @@ export function generateState(): string {
   return crypto.randomBytes(16).toString('base64url');
 }
 
+/**
+ * Base URL of the Viessmann IAM authorize and token endpoints
+ */
+export const DEFAULT_IAM_URL = 'https://iam.viessmann.com/idp/v3';
+
 /**
  * Build authorization URL for Viessmann OAuth2
  */
@@ -51,7 +60,7 @@ export function buildAuthorizationURL(
   params: AuthorizationURLParams,
   codeChallenge: string
 ): string {
-  const url = new URL('https://iam.viessmann.com/idp/v3/authorize');
+  const url = new URL(`${(params.iamUrl || DEFAULT_IAM_URL).replace(/\/+$/, '')}/authorize`);
   url.searchParams.set('client_id', params.clientId);
   url.searchParams.set('redirect_uri', params.redirectUri);
   url.searchParams.set('response_type', 'code');
@@ -67,94 +76,235 @@ export function buildAuthorizationURL(
 }
 
 /**
- * Start a local HTTP server to receive the OAuth callback
+ * Extract the authorization code from a pasted redirect URL or a bare code,
+ * validating `state` when the URL carries one
+ */
+export function parseAuthorizationResponse(input: string, expectedState?: string): string {
+  const trimmed = input.trim();
+  if (!trimmed) {
+    throw new AuthenticationError('No authorization code entered');
+  }
+
+  // A bare code has no URL structure
+  if (!/^[a-z][a-z0-9+.-]*:\/\//i.test(trimmed) && !trimmed.includes('?') && !trimmed.includes('code=')) {
+    return trimmed;
+  }
+
+  const query = trimmed.includes('?') ? trimmed.slice(trimmed.indexOf('?') + 1) : trimmed;
+  const params = new URLSearchParams(query.split('#')[0]);
+
+  const error = params.get('error');
+  if (error) {
+    throw new AuthenticationError(`OAuth error: ${error}`, {
+      errorType: error,
+      extendedPayload: { description: params.get('error_description') }
+    });
+  }
+
+  const state = params.get('state');
+  if (expectedState && state !== expectedState) {
+    throw new AuthenticationError('State mismatch');
+  }
+
+  const code = params.get('code');
+  if (!code) {
+    throw new AuthenticationError('No code received');
+  }
+  return code;
+}
+
+/**
+ * Ask a question on the terminal and return the entered line
+ */
+export function promptForInput(
+  question: string,
+  input: NodeJS.ReadableStream = process.stdin,
+  output: NodeJS.WritableStream = process.stdout
+): Promise<string> {
+  const rl = readline.createInterface({ input, output, terminal: false });
+  return new Promise((resolve, reject) => {
+    let answered = false;
+    rl.question(question, answer => {
+      answered = true;
+      rl.close();
+      resolve(answer);
+    });
+    rl.on('close', () => {
+      if (!answered) {
+        reject(new AuthenticationError('Input closed before an authorization code was entered'));
+      }
+    });
+  });
+}
+
+export interface CallbackServerOptions {
+  port: number;
+  /** Interface to bind to (default `localhost`) */
+  host?: string;
+  /** Path of the redirect URI (default `/`) */
+  path?: string;
+  /** Reject callbacks whose `state` doesn't match */
+  expectedState?: string;
+  /** Give up after this many ms (default 5 minutes) */
+  timeout?: number;
+  /** Cancel waiting for the callback */
+  signal?: AbortSignal;
+  /** HTML shown after a successful login */
+  successPage?: string;
+  /** HTML shown when the login failed; receives the already escaped message */
+  errorPage?: (title: string, message: string) => string;
+  /** Called once the server is listening */
+  onListening?: (url: string) => void;
+}
+
+/**
+ * Escape text for safe use in HTML
+ */
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+const DEFAULT_SUCCESS_PAGE = `
+  <html>
+    <body>
+      <h1>✅ Authentication Successful!</h1>
+      <p>You can close this window and return to your application.</p>
+      <script>window.close()</script>
+    </body>
+  </html>
+`;
+
+function defaultErrorPage(title: string, message: string): string {
+  return `
+    <html>
+      <body>
+        <h1>❌ ${title}</h1>
+        <p>${message}</p>
+        <p>You can close this window.</p>
+      </body>
+    </html>
+  `;
+}
+
+/**
+ * Start a local HTTP server to receive the OAuth callback. Resolves with the
+ * authorization code once the server has been shut down.
  */
+export function startCallbackServer(options: CallbackServerOptions): Promise<string>;
+export function startCallbackServer(port: number, expectedState?: string, callbackPath?: string): Promise<string>;
 export function startCallbackServer(
-  port: number,
-  expectedState?: string
+  portOrOptions: number | CallbackServerOptions,
+  expectedState?: string,
+  callbackPath = '/'
 ): Promise<string> {
+  const options: CallbackServerOptions = typeof portOrOptions === 'number'
+    ? { port: portOrOptions, expectedState, path: callbackPath }
+    : portOrOptions;
+  const host = options.host || 'localhost';
+  const path = options.path || '/';
+  const errorPage = options.errorPage || defaultErrorPage;
+
   return new Promise((resolve, reject) => {
+    let settled = false;
+    let timer: NodeJS.Timeout | undefined;
+
     const server = http.createServer((req, res) => {
-      const url = new URL(req.url!, `http://localhost:${port}`);
-      
-      // Check if this is the callback
-      if (url.pathname === '/') {
-        const code = url.searchParams.get('code');
-        const state = url.searchParams.get('state');
-        const error = url.searchParams.get('error');
+      const url = new URL(req.url!, `http://${host}:${options.port}`);
 
-        if (error) {
-          res.writeHead(400, { 'Content-Type': 'text/html' });
-          res.end(`
-            <html>
-              <body>
-                <h1>❌ Authentication Error</h1>
-                <p>${error}: ${url.searchParams.get('error_description')}</p>
-                <p>You can close this window.</p>
-              </body>
-            </html>
-          `);
-          server.close();
-          reject(new Error(`OAuth error: ${error}`));
-          return;
-        }
+      // Only the redirect path is handled, everything else (favicon, ...) gets a 404
+      if (url.pathname !== path || settled) {
+        res.writeHead(404, { 'Content-Type': 'text/plain' });
+        res.end('Not found');
+        return;
+      }
 
-        // Verify state if provided
-        if (expectedState && state !== expectedState) {
-          res.writeHead(400, { 'Content-Type': 'text/html' });
-          res.end(`
-            <html>
-              <body>
-                <h1>❌ Security Error</h1>
-                <p>State parameter mismatch. Possible CSRF attack.</p>
-                <p>You can close this window.</p>
-              </body>
-            </html>
-          `);
-          server.close();
-          reject(new Error('State mismatch'));
-          return;
-        }
+      const code = url.searchParams.get('code');
+      const state = url.searchParams.get('state');
+      const error = url.searchParams.get('error');
+
+      const fail = (title: string, message: string, reason: Error) => {
+        settled = true;
+        res.writeHead(400, { 'Content-Type': 'text/html; charset=utf-8', Connection: 'close' });
+        res.end(errorPage(escapeHtml(title), escapeHtml(message)), () => finish(reason));
+      };
+
+      if (error) {
+        const description = url.searchParams.get('error_description') || '';
+        fail('Authentication Error', `${error}: ${description}`, new AuthenticationError(`OAuth error: ${error}`, {
+          errorType: error,
+          extendedPayload: { description }
+        }));
+        return;
+      }
+
+      // Verify state if provided
+      if (options.expectedState && state !== options.expectedState) {
+        fail('Security Error', 'State parameter mismatch. Possible CSRF attack.', new AuthenticationError('State mismatch'));
+        return;
+      }
+
+      if (!code) {
+        fail('No Authorization Code', 'No code parameter received.', new AuthenticationError('No code received'));
+        return;
+      }
+
+      settled = true;
+      res.writeHead(200, { 'Content-Type': 'text/html; charset=utf-8', Connection: 'close' });
+      res.end(options.successPage || DEFAULT_SUCCESS_PAGE, () => finish(null, code));
+    });
+
+    const onAbort = () => {
+      settled = true;
+      finish(new AuthenticationError('Authentication aborted'));
+    };
 
-        if (code) {
-          res.writeHead(200, { 'Content-Type': 'text/html' });
-          res.end(`
-            <html>
-              <body>
-                <h1>✅ Authentication Successful!</h1>
-                <p>You can close this window and return to your application.</p>
-                <script>window.close()</script>
-              </body>
-            </html>
-          `);
-          server.close();
-          resolve(code);
+    function finish(error: Error | null, code?: string): void {
+      if (timer) clearTimeout(timer);
+      options.signal?.removeEventListener('abort', onAbort);
+      server.close(() => {
+        if (error) {
+          reject(error);
         } else {
-          res.writeHead(400, { 'Content-Type': 'text/html' });
-          res.end(`
-            <html>
-              <body>
-                <h1>❌ No Authorization Code</h1>
-                <p>No code parameter received.</p>
-                <p>You can close this window.</p>
-              </body>
-            </html>
-          `);
-          server.close();
-          reject(new Error('No code received'));
+          resolve(code!);
         }
+      });
+      server.closeAllConnections();
+    }
+
+    if (options.signal?.aborted) {
+      reject(new AuthenticationError('Authentication aborted'));
+      return;
+    }
+    options.signal?.addEventListener('abort', onAbort);
+
+    server.on('error', (error: NodeJS.ErrnoException) => {
+      if (timer) clearTimeout(timer);
+      options.signal?.removeEventListener('abort', onAbort);
+      settled = true;
+      if (error.code === 'EADDRINUSE') {
+        reject(new ViessmannError(
+          `Port ${options.port} on ${host} is already in use. Stop the other process or configure a different redirectUri/callbackPort.`,
+          { cause: error }
+        ));
+      } else {
+        reject(new ViessmannError(`Callback server failed: ${error.message}`, { cause: error }));
       }
     });
 
-    server.listen(port, () => {
-      console.log(`🔐 Waiting for OAuth callback on http://localhost:${port}/`);
+    server.listen(options.port, host, () => {
+      const address = `http://${host}:${options.port}${path}`;
+      options.onListening?.(address);
     });
 
-    // Timeout after 5 minutes
-    setTimeout(() => {
-      server.close();
-      reject(new Error('Authentication timeout'));
-    }, 5 * 60 * 1000);
+    timer = setTimeout(() => {
+      settled = true;
+      finish(new AuthenticationError('Authentication timeout'));
+    }, options.timeout ?? 5 * 60 * 1000);
   });
 }
 
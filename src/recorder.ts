@@ -0,0 +1,373 @@
+import { EventEmitter } from 'events';
+import type BetterSqlite3 from 'better-sqlite3';
+import type { ViessmannClient } from './client';
+import { Feature } from './types';
+import { reportError, ViessmannError } from './errors';
+import { FeatureCache, patternToRegExp } from './cache';
+
+export interface RecordedDevice {
+  installationId: number;
+  gatewaySerial: string;
+  deviceId: string;
+}
+
+/**
+ * Retention for features whose name matches a pattern (`*` as wildcard)
+ */
+export interface RetentionRule {
+  pattern: string | RegExp;
+  /** Maximum age of samples in ms */
+  maxAge: number;
+}
+
+export interface RetentionOptions {
+  /** Maximum age in ms for features not matched by any rule (default: keep forever) */
+  maxAge?: number;
+  /** Rules, first match wins */
+  rules?: RetentionRule[];
+}
+
+export interface FeatureRecorderOptions {
+  /** SQLite database file (default: `viessmann-history.sqlite`), `:memory:` for tests */
+  path?: string;
+  /** Features to record, `*` as wildcard (default: all) */
+  features?: (string | RegExp)[];
+  /** Snapshot interval in ms for `start()` (default: 10 minutes) */
+  interval?: number;
+  retention?: RetentionOptions;
+  /**
+   * Store samples at the feature's own `timestamp` (default). Unchanged features then
+   * don't create new rows. With `false` every snapshot is stored at the time of the request.
+   */
+  useFeatureTimestamp?: boolean;
+  /** Where snapshot errors go while nobody listens to `error` (default: `console.error`) */
+  log?: (message: string) => void;
+}
+
+export interface HistoryQuery {
+  feature: string;
+  /** Property name (default: `value`) */
+  property?: string;
+  /** Restrict to one device (default: all recorded devices) */
+  device?: RecordedDevice;
+  from?: Date | number;
+  to?: Date | number;
+}
+
+export interface HistorySample {
+  /** Device key `installationId/gatewaySerial/deviceId` */
+  device: string;
+  feature: string;
+  property: string;
+  unit: string | null;
+  timestamp: number;
+  value: number | string | null;
+}
+
+export interface AggregateQuery extends HistoryQuery {
+  /** Bucket size in ms, e.g. 3600000 for hourly values */
+  bucket: number;
+}
+
+export interface AggregatePoint {
+  device: string;
+  /** Start of the bucket (epoch ms) */
+  start: number;
+  avg: number;
+  min: number;
+  max: number;
+  count: number;
+}
+
+export interface RecordedSeries {
+  device: string;
+  feature: string;
+  property: string;
+  unit: string | null;
+  samples: number;
+  first: number | null;
+  last: number | null;
+}
+
+export interface FeatureRecorderEvents {
+  /** A snapshot was stored */
+  recorded: [samples: number, timestamp: number];
+  /** A snapshot failed, for a single device if `device` is set */
+  error: [error: Error, device?: RecordedDevice];
+}
+
+export interface FeatureRecorder {
+  on<E extends keyof FeatureRecorderEvents>(event: E, listener: (...args: FeatureRecorderEvents[E]) => void): this;
+  once<E extends keyof FeatureRecorderEvents>(event: E, listener: (...args: FeatureRecorderEvents[E]) => void): this;
+  off<E extends keyof FeatureRecorderEvents>(event: E, listener: (...args: FeatureRecorderEvents[E]) => void): this;
+  emit<E extends keyof FeatureRecorderEvents>(event: E, ...args: FeatureRecorderEvents[E]): boolean;
+}
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS devices (
+    id INTEGER PRIMARY KEY,
+    key TEXT NOT NULL UNIQUE,
+    installation_id INTEGER NOT NULL,
+    gateway_serial TEXT NOT NULL,
+    device_id TEXT NOT NULL
+  );
+  CREATE TABLE IF NOT EXISTS series (
+    id INTEGER PRIMARY KEY,
+    device_ref INTEGER NOT NULL REFERENCES devices(id),
+    feature TEXT NOT NULL,
+    property TEXT NOT NULL,
+    unit TEXT,
+    UNIQUE (device_ref, feature, property)
+  );
+  CREATE TABLE IF NOT EXISTS samples (
+    series_id INTEGER NOT NULL REFERENCES series(id),
+    ts INTEGER NOT NULL,
+    value REAL,
+    text_value TEXT,
+    PRIMARY KEY (series_id, ts)
+  ) WITHOUT ROWID;
+`;
+
+/**
+ * Load the optional native dependency only when a recorder is created
+ */
+function openDatabase(path: string): BetterSqlite3.Database {
+  let Database: typeof BetterSqlite3;
+  try {
+    Database = require('better-sqlite3');
+  } catch (error) {
+    throw new ViessmannError('FeatureRecorder requires the optional dependency better-sqlite3 (npm install better-sqlite3)', { cause: error });
+  }
+  return new Database(path);
+}
+
+function toEpoch(value: Date | number): number {
+  return value instanceof Date ? value.getTime() : value;
+}
+
+/**
+ * Records feature snapshots into SQLite with one row per feature property and time
+ */
+export class FeatureRecorder extends EventEmitter {
+  private db: BetterSqlite3.Database;
+  private devices = new Map<string, RecordedDevice>();
+  private patterns: RegExp[] | null;
+  private interval: number;
+  private retention: RetentionOptions;
+  private useFeatureTimestamp: boolean;
+  private log: (message: string) => void;
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+
+  constructor(
+    private client: ViessmannClient,
+    options: FeatureRecorderOptions = {}
+  ) {
+    super();
+    this.patterns = options.features ? options.features.map(patternToRegExp) : null;
+    this.interval = options.interval ?? 10 * 60 * 1000;
+    this.retention = options.retention || {};
+    this.useFeatureTimestamp = options.useFeatureTimestamp !== false;
+    this.log = options.log || (message => console.error(message));
+    this.db = openDatabase(options.path || 'viessmann-history.sqlite');
+    this.db.pragma('journal_mode = WAL');
+    this.db.exec(SCHEMA);
+  }
+
+  addDevice(installationId: number, gatewaySerial: string, deviceId: string): this {
+    this.devices.set(FeatureCache.key(installationId, gatewaySerial, deviceId), { installationId, gatewaySerial, deviceId });
+    return this;
+  }
+
+  /**
+   * Fetch and record all devices once, then apply the retention policy.
+   * A failing device is reported as `error` and doesn't stop the others.
+   */
+  async snapshot(): Promise<number> {
+    let samples = 0;
+    const timestamp = Date.now();
+    for (const device of this.devices.values()) {
+      try {
+        const response = await this.client.getDeviceFeatures(device.installationId, device.gatewaySerial, device.deviceId);
+        samples += this.record(device, response.data, timestamp);
+      } catch (error) {
+        reportError(this, this.log, `FeatureRecorder ${FeatureCache.key(device.installationId, device.gatewaySerial, device.deviceId)}`, error, device);
+      }
+    }
+    this.prune(timestamp);
+    this.emit('recorded', samples, timestamp);
+    return samples;
+  }
+
+  /**
+   * Store features fetched elsewhere (e.g. by a FeatureWatcher), returns the number of new samples
+   */
+  record(device: RecordedDevice, features: Feature[], timestamp = Date.now()): number {
+    const deviceRef = this.deviceRef(device);
+    const upsertSeries = this.db.prepare(
+      `INSERT INTO series (device_ref, feature, property, unit) VALUES (?, ?, ?, ?)
+       ON CONFLICT (device_ref, feature, property) DO UPDATE SET unit = COALESCE(excluded.unit, series.unit)
+       RETURNING id`
+    );
+    const insertSample = this.db.prepare(
+      'INSERT OR IGNORE INTO samples (series_id, ts, value, text_value) VALUES (?, ?, ?, ?)'
+    );
+
+    const store = this.db.transaction(() => {
+      let count = 0;
+      for (const feature of features) {
+        if (!feature.isEnabled || !this.isSelected(feature.feature)) continue;
+        const parsed = this.useFeatureTimestamp && feature.timestamp ? Date.parse(feature.timestamp) : NaN;
+        const ts = Number.isFinite(parsed) ? parsed : timestamp;
+
+        for (const [name, property] of Object.entries(feature.properties || {})) {
+          let value: number | null = null;
+          let text: string | null = null;
+          if (property.type === 'number') value = property.value;
+          else if (property.type === 'boolean') value = property.value ? 1 : 0;
+          else if (property.type === 'string') text = property.value;
+          else continue;
+
+          const unit = 'unit' in property ? property.unit ?? null : null;
+          const { id } = upsertSeries.get(deviceRef, feature.feature, name, unit) as { id: number };
+          count += insertSample.run(id, ts, value, text).changes;
+        }
+      }
+      return count;
+    });
+
+    return store();
+  }
+
+  /**
+   * Raw samples of one feature property, oldest first
+   */
+  query(query: HistoryQuery): HistorySample[] {
+    const { where, params } = this.buildFilter(query);
+    const rows = this.db.prepare(
+      `SELECT d.key AS device, s.feature, s.property, s.unit, x.ts AS timestamp, x.value, x.text_value
+       FROM samples x JOIN series s ON s.id = x.series_id JOIN devices d ON d.id = s.device_ref
+       WHERE ${where} ORDER BY x.ts`
+    ).all(...params) as Array<Omit<HistorySample, 'value'> & { value: number | null; text_value: string | null }>;
+
+    return rows.map(({ text_value, ...row }) => ({ ...row, value: text_value ?? row.value }));
+  }
+
+  /**
+   * Downsample numeric values into fixed buckets (avg/min/max/count per bucket)
+   */
+  aggregate(query: AggregateQuery): AggregatePoint[] {
+    if (!(query.bucket > 0)) {
+      throw new ViessmannError('Aggregate bucket must be a positive number of milliseconds');
+    }
+    const { where, params } = this.buildFilter(query);
+    return this.db.prepare(
+      `SELECT d.key AS device, CAST(x.ts / ? AS INTEGER) * ? AS start,
+              AVG(x.value) AS avg, MIN(x.value) AS min, MAX(x.value) AS max, COUNT(*) AS count
+       FROM samples x JOIN series s ON s.id = x.series_id JOIN devices d ON d.id = s.device_ref
+       WHERE ${where} AND x.value IS NOT NULL
+       GROUP BY d.key, start ORDER BY start, d.key`
+    ).all(Math.floor(query.bucket), Math.floor(query.bucket), ...params) as AggregatePoint[];
+  }
+
+  /**
+   * All recorded series with sample counts
+   */
+  listSeries(): RecordedSeries[] {
+    return this.db.prepare(
+      `SELECT d.key AS device, s.feature, s.property, s.unit,
+              COUNT(x.ts) AS samples, MIN(x.ts) AS first, MAX(x.ts) AS last
+       FROM series s JOIN devices d ON d.id = s.device_ref LEFT JOIN samples x ON x.series_id = s.id
+       GROUP BY s.id ORDER BY d.key, s.feature, s.property`
+    ).all() as RecordedSeries[];
+  }
+
+  /**
+   * Delete samples older than the retention policy allows, returns the number of deleted rows
+   */
+  prune(now = Date.now()): number {
+    const rules = (this.retention.rules || []).map(rule => ({ pattern: patternToRegExp(rule.pattern), maxAge: rule.maxAge }));
+    if (rules.length === 0 && this.retention.maxAge === undefined) return 0;
+
+    const series = this.db.prepare('SELECT id, feature FROM series').all() as Array<{ id: number; feature: string }>;
+    const remove = this.db.prepare('DELETE FROM samples WHERE series_id = ? AND ts < ?');
+    const run = this.db.transaction(() => {
+      let deleted = 0;
+      for (const { id, feature } of series) {
+        const maxAge = rules.find(rule => rule.pattern.test(feature))?.maxAge ?? this.retention.maxAge;
+        if (maxAge !== undefined) deleted += remove.run(id, now - maxAge).changes;
+      }
+      return deleted;
+    });
+    return run();
+  }
+
+  /**
+   * Record periodically, the first snapshot runs immediately
+   */
+  start(): this {
+    if (this.running) return this;
+    this.running = true;
+    this.schedule(0);
+    return this;
+  }
+
+  stop(): void {
+    this.running = false;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Stop recording and close the database
+   */
+  close(): void {
+    this.stop();
+    this.db.close();
+  }
+
+  private schedule(delay: number): void {
+    this.timer = setTimeout(async () => {
+      try {
+        await this.snapshot();
+      } catch (error) {
+        reportError(this, this.log, 'FeatureRecorder', error);
+      }
+      if (this.running) this.schedule(this.interval);
+    }, delay);
+  }
+
+  private isSelected(featureName: string): boolean {
+    return !this.patterns || this.patterns.some(pattern => pattern.test(featureName));
+  }
+
+  private deviceRef(device: RecordedDevice): number {
+    const key = FeatureCache.key(device.installationId, device.gatewaySerial, device.deviceId);
+    const row = this.db.prepare(
+      `INSERT INTO devices (key, installation_id, gateway_serial, device_id) VALUES (?, ?, ?, ?)
+       ON CONFLICT (key) DO UPDATE SET key = excluded.key
+       RETURNING id`
+    ).get(key, device.installationId, device.gatewaySerial, device.deviceId) as { id: number };
+    return row.id;
+  }
+
+  private buildFilter(query: HistoryQuery): { where: string; params: unknown[] } {
+    const conditions = ['s.feature = ?', 's.property = ?'];
+    const params: unknown[] = [query.feature, query.property || 'value'];
+    if (query.device) {
+      conditions.push('d.key = ?');
+      params.push(FeatureCache.key(query.device.installationId, query.device.gatewaySerial, query.device.deviceId));
+    }
+    if (query.from !== undefined) {
+      conditions.push('x.ts >= ?');
+      params.push(toEpoch(query.from));
+    }
+    if (query.to !== undefined) {
+      conditions.push('x.ts <= ?');
+      params.push(toEpoch(query.to));
+    }
+    return { where: conditions.join(' AND '), params };
+  }
+}
@@ -0,0 +1,79 @@
+import { NetworkError, ServerError, ViessmannError } from './errors';
+
+export interface RetryOptions {
+  /** Maximum number of retries per request (default 3) */
+  retries?: number;
+  /** Base delay for the first retry in ms (default 500) */
+  minDelay?: number;
+  /** Upper bound for a single delay in ms (default 30000) */
+  maxDelay?: number;
+  /** Exponential growth factor (default 2) */
+  factor?: number;
+  /** HTTP status codes that are retried (default 500, 502, 503, 504) */
+  retryStatuses?: number[];
+  /** Also retry feature commands, which are not idempotent (default false) */
+  retryCommands?: boolean;
+  /** Refresh the token and replay once when the API answers 401 (default true) */
+  refreshOn401?: boolean;
+}
+
+export const DEFAULT_RETRY_OPTIONS: Required<RetryOptions> = {
+  retries: 3,
+  minDelay: 500,
+  maxDelay: 30 * 1000,
+  factor: 2,
+  retryStatuses: [500, 502, 503, 504],
+  retryCommands: false,
+  refreshOn401: true
+};
+
+/**
+ * Per-request state carried on the axios config between attempts
+ */
+export interface RequestRetryState {
+  /** Explicit opt-in/opt-out for this request, overrides `retryCommands` */
+  retry?: boolean;
+  attempt?: number;
+  refreshed?: boolean;
+}
+
+declare module 'axios' {
+  interface AxiosRequestConfig {
+    viessmann?: RequestRetryState;
+  }
+}
+
+const IDEMPOTENT_METHODS = new Set(['get', 'head', 'options']);
+
+/**
+ * Delay before the given retry attempt (0-based), using full jitter
+ */
+export function computeBackoff(attempt: number, options: Required<RetryOptions>): number {
+  const ceiling = Math.min(options.maxDelay, options.minDelay * Math.pow(options.factor, attempt));
+  return Math.round(Math.random() * ceiling);
+}
+
+/**
+ * Check whether a failed request may be retried
+ */
+export function isRetryable(
+  error: ViessmannError,
+  method: string | undefined,
+  state: RequestRetryState,
+  options: Required<RetryOptions>
+): boolean {
+  if (state.retry === false) return false;
+
+  const idempotent = IDEMPOTENT_METHODS.has((method || 'get').toLowerCase());
+  if (!idempotent && !state.retry && !options.retryCommands) return false;
+
+  if (error instanceof NetworkError) return true;
+  return error instanceof ServerError && error.status !== undefined && options.retryStatuses.includes(error.status);
+}
+
+/**
+ * Wait for the given number of milliseconds
+ */
+export function delay(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
@@ -0,0 +1,272 @@
+import { ValidationError } from './errors';
+import { CommandParamConstraints, Feature, ScheduleEntry, Weekday, WeeklySchedule } from './types';
+import { getBoolean, getProperty } from './features';
+
+export const WEEKDAYS: Weekday[] = ['mon', 'tue', 'wed', 'thu', 'fri', 'sat', 'sun'];
+
+/**
+ * Named groups of weekdays for `setDays`
+ */
+export const WEEKDAY_GROUPS: Record<'all' | 'workdays' | 'weekend', Weekday[]> = {
+  all: WEEKDAYS,
+  workdays: ['mon', 'tue', 'wed', 'thu', 'fri'],
+  weekend: ['sat', 'sun']
+};
+
+export type WeekdaySelection = Weekday | Weekday[] | keyof typeof WEEKDAY_GROUPS;
+
+/**
+ * A switching period without position, positions are assigned on serialization
+ */
+export interface ScheduleSlot {
+  start: string;
+  end: string;
+  mode: string;
+}
+
+/**
+ * Constraints of the `setSchedule` command
+ */
+export interface ScheduleConstraints {
+  maxEntries?: number;
+  modes?: string[];
+  /** Minutes that start and end times must be a multiple of */
+  resolution?: number;
+  defaultMode?: string;
+  overlapAllowed?: boolean;
+}
+
+export interface ScheduleChange {
+  day: Weekday;
+  type: 'added' | 'removed';
+  slot: ScheduleSlot;
+}
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$|^24:00$/;
+
+/**
+ * Minutes since midnight of a `HH:MM` time
+ */
+export function toMinutes(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+}
+
+function slotKey(slot: ScheduleSlot): string {
+  return `${slot.start}-${slot.end}-${slot.mode}`;
+}
+
+function resolveDays(days: WeekdaySelection): Weekday[] {
+  if (Array.isArray(days)) return days;
+  if (days in WEEKDAY_GROUPS) return WEEKDAY_GROUPS[days as keyof typeof WEEKDAY_GROUPS];
+  if (!WEEKDAYS.includes(days as Weekday)) {
+    throw new ValidationError(`Unknown weekday ${days}`);
+  }
+  return [days as Weekday];
+}
+
+/**
+ * Check a raw schedule against the `setSchedule` constraints
+ */
+export function validateSchedule(value: unknown, constraints: ScheduleConstraints = {}, label = 'Schedule'): void {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    throw new ValidationError(`${label} must be a schedule object`);
+  }
+
+  for (const [day, entries] of Object.entries(value)) {
+    if (!WEEKDAYS.includes(day as Weekday)) {
+      throw new ValidationError(`${label}: unknown weekday ${day}`);
+    }
+    if (!Array.isArray(entries)) {
+      throw new ValidationError(`${label}: entries of ${day} must be an array`);
+    }
+    if (constraints.maxEntries !== undefined && entries.length > constraints.maxEntries) {
+      throw new ValidationError(`${label}: at most ${constraints.maxEntries} entries per day, got ${entries.length} on ${day}`);
+    }
+
+    const slots: ScheduleSlot[] = [];
+    for (const entry of entries) {
+      if (!TIME_PATTERN.test(entry?.start) || !TIME_PATTERN.test(entry?.end)) {
+        throw new ValidationError(`${label}: invalid time on ${day}, expected HH:MM`);
+      }
+      if (entry.start >= entry.end) {
+        throw new ValidationError(`${label}: entry ${entry.start}-${entry.end} on ${day} ends before it starts`);
+      }
+      if (constraints.modes && !constraints.modes.includes(entry.mode)) {
+        throw new ValidationError(`${label}: mode must be one of ${constraints.modes.join(', ')}, got ${entry.mode} on ${day}`);
+      }
+      if (constraints.resolution && (toMinutes(entry.start) % constraints.resolution || toMinutes(entry.end) % constraints.resolution)) {
+        throw new ValidationError(`${label}: times on ${day} must be multiples of ${constraints.resolution} minutes, got ${entry.start}-${entry.end}`);
+      }
+      slots.push(entry);
+    }
+
+    if (constraints.overlapAllowed === false) {
+      const sorted = slots.slice().sort((a, b) => a.start.localeCompare(b.start));
+      for (let i = 1; i < sorted.length; i++) {
+        if (sorted[i].start < sorted[i - 1].end) {
+          throw new ValidationError(`${label}: entries ${sorted[i - 1].start}-${sorted[i - 1].end} and ${sorted[i].start}-${sorted[i].end} on ${day} overlap`);
+        }
+      }
+    }
+  }
+}
+
+/**
+ * Constraints of a schedule feature's `setSchedule` command
+ */
+export function getScheduleConstraints(feature: Feature | undefined): ScheduleConstraints {
+  const param = Object.values(feature?.commands?.setSchedule?.params || {}).find(p => p.type === 'Schedule');
+  const constraints: CommandParamConstraints = param?.constraints || {};
+  return {
+    maxEntries: constraints.maxEntries,
+    modes: constraints.modes,
+    resolution: constraints.resolution,
+    defaultMode: constraints.defaultMode,
+    overlapAllowed: constraints.overlapAllowed
+  };
+}
+
+/**
+ * Weekly schedule (heating circuit, DHW, circulation pump) with editing,
+ * validation and serialization into the `setSchedule` payload.
+ * Edits modify the schedule in place and return it for chaining.
+ */
+export class Schedule {
+  /** Whether the schedule feature is active, as read from the feature */
+  active?: boolean;
+  private days = new Map<Weekday, ScheduleSlot[]>();
+
+  constructor(
+    entries: WeeklySchedule = {},
+    readonly constraints: ScheduleConstraints = {}
+  ) {
+    for (const day of WEEKDAYS) {
+      const slots = (entries[day] || [])
+        .slice()
+        .sort((a, b) => a.position - b.position)
+        .map(({ start, end, mode }) => ({ start, end, mode }));
+      this.days.set(day, slots);
+    }
+  }
+
+  /**
+   * Parse the `entries` property and the `setSchedule` constraints of a schedule feature
+   */
+  static fromFeature(feature: Feature): Schedule {
+    const entries = getProperty(feature, 'entries');
+    if (entries?.type !== 'Schedule') {
+      throw new ValidationError(`Feature ${feature.feature} has no schedule`);
+    }
+    const schedule = new Schedule(entries.value, getScheduleConstraints(feature));
+    schedule.active = getBoolean(feature, 'active');
+    return schedule;
+  }
+
+  /**
+   * Slots of a day, sorted by start time
+   */
+  getDay(day: Weekday): ScheduleSlot[] {
+    return this.days.get(day)!.map(slot => ({ ...slot }));
+  }
+
+  /**
+   * Mode active at a given time, `defaultMode` outside of all slots
+   */
+  modeAt(day: Weekday, time: string): string | undefined {
+    const slot = this.days.get(day)!.find(s => s.start <= time && time < s.end);
+    return slot?.mode ?? this.constraints.defaultMode;
+  }
+
+  addSlot(days: WeekdaySelection, slot: ScheduleSlot): this {
+    for (const day of resolveDays(days)) {
+      const slots = this.days.get(day)!;
+      slots.push({ ...slot });
+      slots.sort((a, b) => a.start.localeCompare(b.start));
+    }
+    return this;
+  }
+
+  /**
+   * Remove the slot starting at `start`
+   */
+  removeSlot(days: WeekdaySelection, start: string): this {
+    for (const day of resolveDays(days)) {
+      this.days.set(day, this.days.get(day)!.filter(slot => slot.start !== start));
+    }
+    return this;
+  }
+
+  clearDay(days: WeekdaySelection): this {
+    for (const day of resolveDays(days)) {
+      this.days.set(day, []);
+    }
+    return this;
+  }
+
+  /**
+   * Replace the slots of the given days, e.g. `setDays('workdays', [...])`
+   */
+  setDays(days: WeekdaySelection, slots: ScheduleSlot[]): this {
+    const sorted = slots.map(slot => ({ ...slot })).sort((a, b) => a.start.localeCompare(b.start));
+    for (const day of resolveDays(days)) {
+      this.days.set(day, sorted.map(slot => ({ ...slot })));
+    }
+    return this;
+  }
+
+  copyDay(from: Weekday, to: WeekdaySelection): this {
+    return this.setDays(to, this.days.get(from)!);
+  }
+
+  clone(): Schedule {
+    const copy = new Schedule(this.toPayload(), { ...this.constraints });
+    copy.active = this.active;
+    return copy;
+  }
+
+  /**
+   * Slots added and removed compared to another schedule (usually the current one)
+   */
+  diff(previous: Schedule): ScheduleChange[] {
+    const changes: ScheduleChange[] = [];
+    for (const day of WEEKDAYS) {
+      const before = new Set(previous.getDay(day).map(slotKey));
+      const after = new Set(this.getDay(day).map(slotKey));
+      for (const slot of previous.getDay(day)) {
+        if (!after.has(slotKey(slot))) changes.push({ day, type: 'removed', slot });
+      }
+      for (const slot of this.getDay(day)) {
+        if (!before.has(slotKey(slot))) changes.push({ day, type: 'added', slot });
+      }
+    }
+    return changes;
+  }
+
+  equals(other: Schedule): boolean {
+    return this.diff(other).length === 0;
+  }
+
+  /**
+   * Throws a ValidationError if the schedule violates its constraints
+   */
+  validate(): this {
+    validateSchedule(this.toPayload(), this.constraints);
+    return this;
+  }
+
+  /**
+   * Serialize into the `newSchedule` payload, with positions per day
+   */
+  toPayload(): WeeklySchedule {
+    const payload: WeeklySchedule = {};
+    for (const day of WEEKDAYS) {
+      payload[day] = this.days.get(day)!.map((slot, position): ScheduleEntry => ({ ...slot, position }));
+    }
+    return payload;
+  }
+
+  toJSON(): WeeklySchedule {
+    return this.toPayload();
+  }
+}
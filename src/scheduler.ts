@@ -0,0 +1,240 @@
+import { RateLimitError } from './errors';
+
+/**
+ * A rolling quota window, e.g. 120 calls per 10 minutes
+ */
+export interface QuotaWindow {
+  name: string;
+  limit: number;
+  windowMs: number;
+}
+
+export interface RateLimitOptions {
+  /** Quota windows to enforce (default: 120 per 10 minutes, 1450 per day) */
+  windows?: QuotaWindow[];
+  /** Wait for a free slot (`queue`) or fail immediately (`reject`), default `queue` */
+  mode?: 'queue' | 'reject';
+  /** Reject queued calls that would have to wait longer than this (ms) */
+  maxQueueWait?: number;
+}
+
+export interface QuotaStatus {
+  name: string;
+  limit: number;
+  windowMs: number;
+  used: number;
+  remaining: number;
+  /** Epoch milliseconds when the next slot in this window frees up */
+  resetAt: number;
+}
+
+export interface QuotaSnapshot {
+  windows: QuotaStatus[];
+  /** Epoch milliseconds until which the API told us to stop calling */
+  blockedUntil?: number;
+  /** Number of calls waiting for a free slot */
+  queued: number;
+}
+
+/**
+ * Default Viessmann API quotas for the basic plan
+ */
+export const DEFAULT_QUOTA_WINDOWS: QuotaWindow[] = [
+  { name: '10min', limit: 120, windowMs: 10 * 60 * 1000 },
+  { name: 'daily', limit: 1450, windowMs: 24 * 60 * 60 * 1000 }
+];
+
+interface QueuedCall {
+  resolve: () => void;
+  reject: (error: Error) => void;
+}
+
+/**
+ * Request scheduler that keeps API calls within the Viessmann quotas
+ */
+export class RequestScheduler {
+  private windows: QuotaWindow[];
+  private mode: 'queue' | 'reject';
+  private maxQueueWait?: number;
+  private calls: number[] = [];
+  private blockedUntil = 0;
+  private queue: QueuedCall[] = [];
+  private timer: NodeJS.Timeout | null = null;
+
+  constructor(options: RateLimitOptions = {}) {
+    this.windows = options.windows || DEFAULT_QUOTA_WINDOWS;
+    this.mode = options.mode || 'queue';
+    this.maxQueueWait = options.maxQueueWait;
+  }
+
+  /**
+   * Wait for a free slot and record a call against all quota windows
+   */
+  acquire(): Promise<void> {
+    if (this.mode === 'reject') {
+      const wait = this.computeWait();
+      if (wait > 0) {
+        return Promise.reject(this.createLimitError(wait));
+      }
+      this.record();
+      return Promise.resolve();
+    }
+
+    return new Promise((resolve, reject) => {
+      this.queue.push({ resolve, reject });
+      this.drain();
+    });
+  }
+
+  /**
+   * Run a function once a slot is available
+   */
+  async schedule<T>(fn: () => Promise<T>): Promise<T> {
+    await this.acquire();
+    return fn();
+  }
+
+  /**
+   * Stop all calls until the given time (e.g. from a 429 `limitReset`)
+   */
+  blockUntil(timestamp: number): void {
+    if (timestamp > this.blockedUntil) {
+      this.blockedUntil = timestamp;
+    }
+  }
+
+  /**
+   * Sync local counters with rate limit response headers, if present
+   */
+  updateFromHeaders(headers: Record<string, unknown>): void {
+    const limit = Number(headers['x-ratelimit-limit']);
+    const remaining = Number(headers['x-ratelimit-remaining']);
+    if (!Number.isFinite(limit) || !Number.isFinite(remaining)) return;
+
+    const window = this.windows.find(w => w.limit === limit) || this.windows[0];
+    if (!window) return;
+
+    const now = Date.now();
+    this.prune(now);
+    const used = Math.max(0, Math.min(limit, limit - remaining));
+    const inWindow = this.calls.filter(t => t > now - window.windowMs);
+
+    if (inWindow.length < used) {
+      // Server counted calls we don't know about (other clients, restarts)
+      const missing = used - inWindow.length;
+      for (let i = 0; i < missing; i++) this.calls.push(now);
+      this.calls.sort((a, b) => a - b);
+    }
+
+    if (remaining <= 0) {
+      const reset = Number(headers['x-ratelimit-reset']);
+      if (Number.isFinite(reset) && reset > 0) {
+        // Either seconds until reset or epoch seconds
+        this.blockUntil(reset < 1e9 ? now + reset * 1000 : reset * 1000);
+      }
+    }
+  }
+
+  /**
+   * Get the current quota usage
+   */
+  getQuota(): QuotaSnapshot {
+    const now = Date.now();
+    this.prune(now);
+    return {
+      windows: this.windows.map(window => {
+        const inWindow = this.calls.filter(t => t > now - window.windowMs);
+        const used = Math.min(inWindow.length, window.limit);
+        const freeingCall = inWindow[inWindow.length - window.limit] ?? inWindow[0];
+        return {
+          name: window.name,
+          limit: window.limit,
+          windowMs: window.windowMs,
+          used,
+          remaining: window.limit - used,
+          resetAt: freeingCall !== undefined ? freeingCall + window.windowMs : now
+        };
+      }),
+      blockedUntil: this.blockedUntil > now ? this.blockedUntil : undefined,
+      queued: this.queue.length
+    };
+  }
+
+  /**
+   * Reject all queued calls and stop the scheduler timer
+   */
+  dispose(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    const queued = this.queue.splice(0);
+    for (const call of queued) {
+      call.reject(new RateLimitError('Request scheduler disposed'));
+    }
+  }
+
+  /**
+   * Release queued calls as slots become available
+   */
+  private drain(): void {
+    if (this.timer) return;
+
+    while (this.queue.length > 0) {
+      const wait = this.computeWait();
+      if (wait > 0) {
+        if (this.maxQueueWait !== undefined && wait > this.maxQueueWait) {
+          this.queue.shift()!.reject(this.createLimitError(wait));
+          continue;
+        }
+        this.timer = setTimeout(() => {
+          this.timer = null;
+          this.drain();
+        }, wait);
+        return;
+      }
+      this.record();
+      this.queue.shift()!.resolve();
+    }
+  }
+
+  /**
+   * Milliseconds until the next call is allowed
+   */
+  private computeWait(): number {
+    const now = Date.now();
+    this.prune(now);
+    let wait = Math.max(0, this.blockedUntil - now);
+
+    for (const window of this.windows) {
+      const inWindow = this.calls.filter(t => t > now - window.windowMs);
+      if (inWindow.length >= window.limit) {
+        const freeAt = inWindow[inWindow.length - window.limit] + window.windowMs;
+        wait = Math.max(wait, freeAt - now);
+      }
+    }
+
+    return wait;
+  }
+
+  private record(): void {
+    this.calls.push(Date.now());
+  }
+
+  /**
+   * Drop calls older than the longest window
+   */
+  private prune(now: number): void {
+    const longest = Math.max(0, ...this.windows.map(w => w.windowMs));
+    const cutoff = now - longest;
+    let index = 0;
+    while (index < this.calls.length && this.calls[index] <= cutoff) index++;
+    if (index > 0) this.calls.splice(0, index);
+  }
+
+  private createLimitError(wait: number): RateLimitError {
+    return new RateLimitError(`API quota exhausted, next slot in ${Math.ceil(wait / 1000)}s`, {
+      limitReset: Date.now() + wait
+    });
+  }
+}
@@ -1,16 +1,104 @@
+import * as crypto from 'crypto';
 import * as fs from 'fs';
 import * as path from 'path';
 import { AuthToken } from './types';
+import { ValidationError } from './errors';
 
 export interface StoredToken extends AuthToken {
   created_at: number;
 }
 
 /**
- * Token storage manager for persisting OAuth tokens
+ * Storage backend for OAuth tokens. Implement this to keep tokens in your
+ * own database or secret store and pass it as `tokenStore` in the config.
  */
-export class TokenStorage {
-  private tokenPath: string;
+export interface TokenStore {
+  saveToken(token: AuthToken): Promise<void>;
+  loadToken(): Promise<StoredToken | null>;
+  deleteToken(): Promise<void>;
+}
+
+/**
+ * Check if a stored token is expired or expires within 5 minutes
+ */
+export function isStoredTokenExpired(token: StoredToken): boolean {
+  const expiresAt = token.created_at + (token.expires_in * 1000);
+  return Date.now() >= (expiresAt - 5 * 60 * 1000);
+}
+
+/**
+ * Keep the token's `created_at` if it has one, so expiry is computed from the time it was issued
+ */
+function toStoredToken(token: AuthToken | StoredToken): StoredToken {
+  return {
+    ...token,
+    created_at: 'created_at' in token && token.created_at ? token.created_at : Date.now()
+  };
+}
+
+/**
+ * Write a file atomically with owner-only permissions
+ */
+async function writeFileAtomic(filePath: string, data: string): Promise<void> {
+  const tmpPath = `${filePath}.${process.pid}.${crypto.randomBytes(6).toString('hex')}.tmp`;
+  try {
+    await fs.promises.writeFile(tmpPath, data, { encoding: 'utf-8', mode: 0o600 });
+    await fs.promises.rename(tmpPath, filePath);
+  } catch (error) {
+    await fs.promises.unlink(tmpPath).catch(() => undefined);
+    throw error;
+  }
+}
+
+/**
+ * Keeps tokens in memory only, e.g. for tests or short-lived processes
+ */
+export class MemoryTokenStore implements TokenStore {
+  private token: StoredToken | null = null;
+
+  async saveToken(token: AuthToken): Promise<void> {
+    this.token = toStoredToken(token);
+  }
+
+  async loadToken(): Promise<StoredToken | null> {
+    return this.token ? { ...this.token } : null;
+  }
+
+  async deleteToken(): Promise<void> {
+    this.token = null;
+  }
+}
+
+/**
+ * Delegates to user supplied functions, e.g. to back tokens with a database
+ */
+export class CallbackTokenStore implements TokenStore {
+  constructor(
+    private handlers: {
+      load: () => Promise<StoredToken | null>;
+      save: (token: StoredToken) => Promise<void>;
+      delete: () => Promise<void>;
+    }
+  ) {}
+
+  async saveToken(token: AuthToken): Promise<void> {
+    await this.handlers.save(toStoredToken(token));
+  }
+
+  async loadToken(): Promise<StoredToken | null> {
+    return this.handlers.load();
+  }
+
+  async deleteToken(): Promise<void> {
+    await this.handlers.delete();
+  }
+}
+
+/**
+ * Stores tokens as plain JSON in a file with 0600 permissions
+ */
+export class FileTokenStore implements TokenStore {
+  protected tokenPath: string;
 
   constructor(tokenPath?: string) {
     this.tokenPath = tokenPath || path.join(process.cwd(), '.viessmann-token.json');
@@ -20,16 +108,7 @@ export class TokenStorage {
    * Save token to file
    */
   async saveToken(token: AuthToken): Promise<void> {
-    const storedToken: StoredToken = {
-      ...token,
-      created_at: Date.now()
-    };
-
-    await fs.promises.writeFile(
-      this.tokenPath,
-      JSON.stringify(storedToken, null, 2),
-      'utf-8'
-    );
+    await writeFileAtomic(this.tokenPath, JSON.stringify(toStoredToken(token), null, 2));
   }
 
   /**
@@ -71,8 +150,157 @@ export class TokenStorage {
    * Check if stored token is expired
    */
   isTokenExpired(token: StoredToken): boolean {
-    const expiresAt = token.created_at + (token.expires_in * 1000);
-    // Consider expired if less than 5 minutes remaining
-    return Date.now() >= (expiresAt - 5 * 60 * 1000);
+    return isStoredTokenExpired(token);
+  }
+}
+
+/**
+ * Token storage manager for persisting OAuth tokens
+ *
+ * @deprecated Use FileTokenStore or another TokenStore implementation
+ */
+export class TokenStorage extends FileTokenStore {}
+
+export interface EncryptedFileTokenStoreOptions {
+  /** File path (default `.viessmann-token.enc` in the working directory) */
+  tokenPath?: string;
+  /** Passphrase, the key is derived with scrypt and a random salt */
+  passphrase?: string;
+  /** Raw 32 byte key, as Buffer or hex/base64 string */
+  key?: Buffer | string;
+  /**
+   * Environment variable used when neither is given (default VIESSMANN_TOKEN_KEY). A raw 32 byte
+   * key in hex (64 characters) or base64 is used directly, any other value as passphrase.
+   */
+  envVar?: string;
+}
+
+interface EncryptedTokenFile {
+  version: 1;
+  kdf: 'scrypt' | 'none';
+  salt?: string;
+  iv: string;
+  tag: string;
+  data: string;
+}
+
+/** 32 bytes as hex or (url-safe) base64 */
+const RAW_KEY_PATTERN = /^(?:[0-9a-f]{64}|[A-Za-z0-9+/_-]{43}=?)$/i;
+
+/**
+ * Stores tokens in a file encrypted with AES-256-GCM
+ */
+export class EncryptedFileTokenStore implements TokenStore {
+  private tokenPath: string;
+  private passphrase?: string;
+  private key?: Buffer;
+  /** Last scrypt result, reused for its salt so saves and loads don't derive again */
+  private derived?: { salt: string; key: Promise<Buffer> };
+
+  constructor(options: EncryptedFileTokenStoreOptions = {}) {
+    this.tokenPath = options.tokenPath || path.join(process.cwd(), '.viessmann-token.enc');
+
+    if (options.key) {
+      this.key = EncryptedFileTokenStore.parseKey(options.key);
+    } else {
+      this.passphrase = options.passphrase;
+      if (this.passphrase === undefined) {
+        const secret = process.env[options.envVar || 'VIESSMANN_TOKEN_KEY'];
+        if (secret && RAW_KEY_PATTERN.test(secret)) {
+          this.key = EncryptedFileTokenStore.parseKey(secret);
+        }
+        // Kept as passphrase as well, so files written with it before still decrypt
+        this.passphrase = secret;
+      }
+    }
+
+    if (!this.key && !this.passphrase) {
+      throw new ValidationError('EncryptedFileTokenStore requires a key or passphrase');
+    }
+  }
+
+  async saveToken(token: AuthToken): Promise<void> {
+    const salt = this.key ? undefined : this.derived?.salt ?? crypto.randomBytes(16).toString('base64');
+    const key = this.key || await this.deriveKey(salt!);
+    const iv = crypto.randomBytes(12);
+    const cipher = crypto.createCipheriv('aes-256-gcm', key, iv);
+    const plaintext = JSON.stringify(toStoredToken(token));
+    const data = Buffer.concat([cipher.update(plaintext, 'utf-8'), cipher.final()]);
+
+    const file: EncryptedTokenFile = {
+      version: 1,
+      kdf: salt ? 'scrypt' : 'none',
+      salt,
+      iv: iv.toString('base64'),
+      tag: cipher.getAuthTag().toString('base64'),
+      data: data.toString('base64')
+    };
+
+    await writeFileAtomic(this.tokenPath, JSON.stringify(file, null, 2));
+  }
+
+  /**
+   * Load and decrypt the token. Returns null if the file is missing or
+   * cannot be decrypted with the configured key.
+   */
+  async loadToken(): Promise<StoredToken | null> {
+    try {
+      const file: EncryptedTokenFile = JSON.parse(await fs.promises.readFile(this.tokenPath, 'utf-8'));
+      let key: Buffer;
+      if (file.kdf === 'scrypt') {
+        if (!this.passphrase || !file.salt) return null;
+        key = await this.deriveKey(file.salt);
+      } else {
+        if (!this.key) return null;
+        key = this.key;
+      }
+
+      const decipher = crypto.createDecipheriv('aes-256-gcm', key, Buffer.from(file.iv, 'base64'));
+      decipher.setAuthTag(Buffer.from(file.tag, 'base64'));
+      const plaintext = Buffer.concat([
+        decipher.update(Buffer.from(file.data, 'base64')),
+        decipher.final()
+      ]).toString('utf-8');
+      return JSON.parse(plaintext);
+    } catch {
+      return null;
+    }
+  }
+
+  async deleteToken(): Promise<void> {
+    try {
+      await fs.promises.unlink(this.tokenPath);
+    } catch {
+      // Ignore if file doesn't exist
+    }
+  }
+
+  /**
+   * Derive the key off the event loop, scrypt is slow on purpose
+   */
+  private deriveKey(salt: string): Promise<Buffer> {
+    if (this.derived?.salt !== salt) {
+      const key = new Promise<Buffer>((resolve, reject) => {
+        crypto.scrypt(this.passphrase!, Buffer.from(salt, 'base64'), 32, (error, derivedKey) => {
+          if (error) reject(error);
+          else resolve(derivedKey);
+        });
+      });
+      this.derived = { salt, key };
+      key.catch(() => {
+        if (this.derived?.key === key) this.derived = undefined;
+      });
+    }
+    return this.derived!.key;
+  }
+
+  private static parseKey(key: Buffer | string): Buffer {
+    const buffer = typeof key !== 'string'
+      ? key
+      : /^[0-9a-f]{64}$/i.test(key) ? Buffer.from(key, 'hex') : Buffer.from(key, 'base64');
+    if (buffer.length !== 32) {
+      throw new ValidationError('Encryption key must be 32 bytes');
+    }
+    return buffer;
   }
 }
@@ -0,0 +1,291 @@
+import type { ViessmannClient } from './client';
+import { CommandDescriptor, describeCommand } from './commands';
+import {
+  Address,
+  AggregatedStatus,
+  CommandOptions,
+  CommandResponse,
+  Device,
+  DeviceStatus,
+  EquipmentStatus,
+  Feature,
+  FeatureQueryOptions,
+  Gateway,
+  GatewayFeatureQueryOptions,
+  Installation,
+  ListResponse
+} from './types';
+
+/**
+ * A device behind a gateway, e.g. the heat pump itself (usually device `0`)
+ */
+export class DeviceNode {
+  readonly id: string;
+  readonly modelId: string;
+  readonly status: DeviceStatus;
+  readonly deviceType: string;
+  readonly roles: string[];
+  readonly boilerSerial: string | null;
+
+  constructor(
+    private client: ViessmannClient,
+    readonly gateway: GatewayNode,
+    readonly raw: Device
+  ) {
+    this.id = raw.id;
+    this.modelId = raw.modelId;
+    this.status = raw.status;
+    this.deviceType = raw.deviceType;
+    this.roles = raw.roles || [];
+    this.boilerSerial = raw.boilerSerial;
+  }
+
+  get installation(): InstallationNode {
+    return this.gateway.installation;
+  }
+
+  get isOnline(): boolean {
+    return this.status === 'Online';
+  }
+
+  /**
+   * Get all features of this device
+   */
+  async getFeatures(options?: FeatureQueryOptions): Promise<Feature[]> {
+    const response = await this.client.getDeviceFeatures(this.installation.id, this.gateway.serial, this.id, options);
+    return response.data;
+  }
+
+  /**
+   * Get a single feature of this device
+   */
+  async getFeature(featureName: string): Promise<Feature> {
+    const response = await this.client.getDeviceFeature(this.installation.id, this.gateway.serial, this.id, featureName);
+    return response.data;
+  }
+
+  /**
+   * Describe a command of a feature of this device (parameters and constraints)
+   */
+  async describeCommand(featureName: string, commandName: string): Promise<CommandDescriptor> {
+    return describeCommand(await this.getFeature(featureName), commandName);
+  }
+
+  /**
+   * Execute a command on a feature of this device
+   */
+  executeCommand(
+    featureName: string,
+    commandName: string,
+    data?: Record<string, unknown>,
+    options?: CommandOptions
+  ): Promise<CommandResponse> {
+    return this.client.executeDeviceFeatureCommand(
+      this.installation.id,
+      this.gateway.serial,
+      this.id,
+      featureName,
+      commandName,
+      data,
+      options
+    );
+  }
+}
+
+/**
+ * A gateway (e.g. the TCU of the heat pump) with its devices
+ */
+export class GatewayNode {
+  readonly serial: string;
+  readonly firmwareVersion: string;
+  readonly gatewayType: string;
+  readonly status: AggregatedStatus;
+  readonly devices: DeviceNode[];
+
+  constructor(
+    private client: ViessmannClient,
+    readonly installation: InstallationNode,
+    readonly raw: Gateway,
+    devices: Device[]
+  ) {
+    this.serial = raw.serial;
+    this.firmwareVersion = raw.version;
+    this.gatewayType = raw.gatewayType;
+    this.status = raw.aggregatedStatus;
+    this.devices = devices.map(device => new DeviceNode(client, this, device));
+  }
+
+  /**
+   * Get a device by ID
+   */
+  getDevice(deviceId: string): DeviceNode | undefined {
+    return this.devices.find(device => device.id === deviceId);
+  }
+
+  /**
+   * Get the current connectivity status of this gateway
+   */
+  async getStatus(): Promise<EquipmentStatus> {
+    const response = await this.client.getGatewayStatus(this.installation.id, this.serial);
+    return response.data;
+  }
+
+  /**
+   * Get all features of this gateway
+   */
+  async getFeatures(options?: GatewayFeatureQueryOptions): Promise<Feature[]> {
+    const response = await this.client.getGatewayFeatures(this.installation.id, this.serial, options);
+    return response.data;
+  }
+
+  /**
+   * Get a single feature of this gateway
+   */
+  async getFeature(featureName: string): Promise<Feature> {
+    const response = await this.client.getGatewayFeature(this.installation.id, this.serial, featureName);
+    return response.data;
+  }
+
+  /**
+   * Describe a command of a feature of this gateway (parameters and constraints)
+   */
+  async describeCommand(featureName: string, commandName: string): Promise<CommandDescriptor> {
+    return describeCommand(await this.getFeature(featureName), commandName);
+  }
+
+  /**
+   * Execute a command on a feature of this gateway
+   */
+  executeCommand(
+    featureName: string,
+    commandName: string,
+    data?: Record<string, unknown>,
+    options?: CommandOptions
+  ): Promise<CommandResponse> {
+    return this.client.executeGatewayFeatureCommand(
+      this.installation.id,
+      this.serial,
+      featureName,
+      commandName,
+      data,
+      options
+    );
+  }
+}
+
+/**
+ * An installation with its gateways and devices
+ */
+export class InstallationNode {
+  readonly id: number;
+  readonly description: string;
+  readonly address: Address;
+  readonly status: AggregatedStatus;
+  readonly gateways: GatewayNode[] = [];
+
+  constructor(
+    private client: ViessmannClient,
+    readonly raw: Installation
+  ) {
+    this.id = raw.id;
+    this.description = raw.description;
+    this.address = raw.address;
+    this.status = raw.aggregatedStatus;
+  }
+
+  /**
+   * All devices of all gateways
+   */
+  get devices(): DeviceNode[] {
+    return this.gateways.flatMap(gateway => gateway.devices);
+  }
+
+  /**
+   * Get a gateway by serial
+   */
+  getGateway(serial: string): GatewayNode | undefined {
+    return this.gateways.find(gateway => gateway.serial === serial);
+  }
+
+  /**
+   * Find the first device matching a predicate, e.g. by model or role
+   */
+  findDevice(predicate: (device: DeviceNode) => boolean): DeviceNode | undefined {
+    return this.devices.find(predicate);
+  }
+
+  /**
+   * Get the current status of this installation
+   */
+  async getStatus(): Promise<EquipmentStatus> {
+    const response = await this.client.getInstallationStatus(this.id);
+    return response.data;
+  }
+
+  /**
+   * Get all features of this installation
+   */
+  async getFeatures(options?: FeatureQueryOptions): Promise<Feature[]> {
+    const response = await this.client.getInstallationFeatures(this.id, options);
+    return response.data;
+  }
+
+  /**
+   * Get a single feature of this installation
+   */
+  async getFeature(featureName: string): Promise<Feature> {
+    const response = await this.client.getInstallationFeature(this.id, featureName);
+    return response.data;
+  }
+
+  /**
+   * @internal Used by discover() to attach gateways once their devices are known
+   */
+  addGateway(gateway: Gateway, devices: Device[]): GatewayNode {
+    const node = new GatewayNode(this.client, this, gateway, devices);
+    this.gateways.push(node);
+    return node;
+  }
+}
+
+/**
+ * Load all installations with their gateways and devices
+ */
+export async function discoverTopology(client: ViessmannClient): Promise<InstallationNode[]> {
+  const installations = await fetchAllPages(cursor => client.getInstallations(true, cursor));
+  const nodes: InstallationNode[] = [];
+
+  for (const installation of installations) {
+    const node = new InstallationNode(client, installation);
+    const gateways = installation.gateways
+      || await fetchAllPages(cursor => client.getGateways(installation.id, true, cursor));
+
+    for (const gateway of gateways) {
+      const devices = gateway.devices
+        || await fetchAllPages(cursor => client.getDevices(installation.id, gateway.serial, cursor));
+      node.addGateway(gateway, devices);
+    }
+
+    nodes.push(node);
+  }
+
+  return nodes;
+}
+
+/**
+ * Follow `cursor.next` until the list endpoint has no further page
+ */
+async function fetchAllPages<T>(fetchPage: (cursor?: string) => Promise<ListResponse<T>>): Promise<T[]> {
+  const items: T[] = [];
+  const seen = new Set<string>();
+  let cursor: string | undefined;
+  do {
+    const page = await fetchPage(cursor);
+    items.push(...page.data);
+    cursor = page.cursor?.next || undefined;
+    // A cursor that comes back again would loop forever
+    if (cursor && seen.has(cursor)) break;
+    if (cursor) seen.add(cursor);
+  } while (cursor);
+  return items;
+}
@@ -1,3 +1,8 @@
+import { RateLimitOptions } from './scheduler';
+import { RetryOptions } from './retry';
+import { CacheOptions } from './cache';
+import { TokenStore } from './storage';
+
 export interface ViessmannConfig {
   clientId: string;
   clientSecret?: string;
@@ -6,6 +11,29 @@ export interface ViessmannConfig {
   accessToken?: string;
   refreshToken?: string;
   apiUrl?: string;
+  /** Base URL of the IAM authorize and token endpoints (default https://iam.viessmann.com/idp/v3) */
+  iamUrl?: string;
+  /** OAuth redirect URI registered for the client (default http://localhost:4200/) */
+  redirectUri?: string;
+  /** Port for the local callback server if it differs from the redirect URI, e.g. behind a proxy */
+  callbackPort?: number;
+  /** Interface the local callback server binds to (default: host of the redirect URI) */
+  callbackHost?: string;
+  /** Quota handling for API calls, `false` disables the scheduler */
+  rateLimit?: RateLimitOptions | false;
+  /** Retry and 401 refresh behaviour, `false` disables both */
+  retry?: RetryOptions | false;
+  /** Opt-in cache for device feature responses */
+  cache?: CacheOptions | boolean;
+  /** Where tokens are persisted (default: `.viessmann-token.json` in the working directory) */
+  tokenStore?: TokenStore;
+  /** Progress messages of the login flows (default: `console.log`) */
+  log?: (message: string) => void;
+  /**
+   * Validate command payloads against the feature's command descriptors before sending, when the
+   * feature is passed or cached (default: true). Features are never fetched just for validation.
+   */
+  validateCommands?: boolean;
 }
 
 export interface AuthToken {
@@ -15,43 +43,284 @@ export interface AuthToken {
   token_type: string;
 }
 
+// ============================================
+// RESPONSE ENVELOPES
+// ============================================
+
+/**
+ * Paging cursor returned by list endpoints
+ */
+export interface Cursor {
+  next: string;
+}
+
+/**
+ * Envelope for endpoints returning a list of items
+ */
+export interface ListResponse<T> {
+  data: T[];
+  cursor?: Cursor;
+}
+
+/**
+ * Envelope for endpoints returning a single item
+ */
+export interface ItemResponse<T> {
+  data: T;
+}
+
+// ============================================
+// EQUIPMENT API
+// ============================================
+
+export type AggregatedStatus = 'WorksProperly' | 'Error' | 'Offline' | string;
+
+export interface GeoLocation {
+  latitude: number;
+  longitude: number;
+  timeZone: string;
+}
+
+export interface Address {
+  street: string;
+  houseNumber: string;
+  zip: string;
+  city: string;
+  region: string | null;
+  country: string;
+  phoneNumber: string | null;
+  faxNumber: string | null;
+  geolocation: GeoLocation | null;
+}
+
 export interface Installation {
   id: number;
   description: string;
-  address: {
-    street: string;
-    city: string;
-    postalCode: string;
-    country: string;
-  };
-  gateways: Gateway[];
+  address: Address;
+  registeredAt: string;
+  updatedAt: string;
+  aggregatedStatus: AggregatedStatus;
+  servicedBy: unknown;
+  heatingType: string | null;
+  ownedByMaintainer: boolean;
+  endUserWlanCommissioned: boolean;
+  withoutViCareUser: boolean;
+  installationType: string;
+  buildingName: string | null;
+  buildingEmail: string | null;
+  buildingPhone: string | null;
+  accessLevel: string;
+  ownershipType: string;
+  brand: string | null;
+  /** Only present when requested with `includeGateways` */
+  gateways?: Gateway[];
 }
 
 export interface Gateway {
   serial: string;
   version: string;
-  devices: Device[];
+  firmwareUpdateFailureCounter: number;
+  autoUpdate: boolean;
+  createdAt: string;
+  producedAt: string;
+  lastStatusChangedAt: string;
+  aggregatedStatus: AggregatedStatus;
+  targetRealm: string;
+  gatewayType: string;
+  installationId: number;
+  registeredAt: string;
+  description: string | null;
+  otaOngoing: boolean;
+  /** Only present when requested with `includeDevices` */
+  devices?: Device[];
 }
 
+export type DeviceStatus = 'Online' | 'Offline' | string;
+
 export interface Device {
+  gatewaySerial: string;
   id: string;
-  boilerSerial: string;
+  boilerSerial: string | null;
+  boilerSerialEditor: string | null;
+  bmuSerial: string | null;
+  bmuSerialEditor: string | null;
+  createdAt: string;
+  editedAt: string;
   modelId: string;
-  status: string;
+  status: DeviceStatus;
+  deviceType: string;
+  roles: string[];
+  isBoilerSerialEditable: boolean;
+  brand: string | null;
+  translationKey: string | null;
+}
+
+/**
+ * Connectivity status of a gateway or installation
+ */
+export interface EquipmentStatus {
+  aggregatedStatus?: AggregatedStatus;
+  status?: string;
+  [key: string]: unknown;
+}
+
+export type InstallationsResponse = ListResponse<Installation>;
+export type InstallationResponse = ItemResponse<Installation>;
+export type GatewaysResponse = ListResponse<Gateway>;
+export type GatewayResponse = ItemResponse<Gateway>;
+export type DevicesResponse = ListResponse<Device>;
+export type StatusResponse = ItemResponse<EquipmentStatus>;
+
+// ============================================
+// FEATURES API
+// ============================================
+
+export interface NumberProperty {
+  type: 'number';
+  value: number;
+  unit?: string;
+}
+
+export interface StringProperty {
+  type: 'string';
+  value: string;
+  unit?: string;
+}
+
+export interface BooleanProperty {
+  type: 'boolean';
+  value: boolean;
+}
+
+export interface ArrayProperty {
+  type: 'array';
+  value: number[];
+  unit?: string;
+}
+
+export interface ObjectProperty {
+  type: 'object';
+  value: Record<string, unknown>;
+}
+
+export type Weekday = 'mon' | 'tue' | 'wed' | 'thu' | 'fri' | 'sat' | 'sun';
+
+/**
+ * One switching period of a schedule, times as `HH:MM`
+ */
+export interface ScheduleEntry {
+  start: string;
+  end: string;
+  mode: string;
+  position: number;
+}
+
+/**
+ * Schedule as returned in `entries` and sent as `newSchedule`
+ */
+export type WeeklySchedule = Partial<Record<Weekday, ScheduleEntry[]>>;
+
+export interface ScheduleProperty {
+  type: 'Schedule';
+  value: WeeklySchedule;
+}
+
+export type FeatureProperty =
+  | NumberProperty
+  | StringProperty
+  | BooleanProperty
+  | ArrayProperty
+  | ObjectProperty
+  | ScheduleProperty;
+
+export type FeaturePropertyType = FeatureProperty['type'];
+
+/**
+ * Properties of a feature, keyed by property name (`value`, `status`,
+ * `temperature`, `ssid`, `day`, ...)
+ */
+export type FeatureProperties = Record<string, FeatureProperty>;
+
+export interface CommandParamConstraints {
+  min?: number;
+  max?: number;
+  stepping?: number;
+  enum?: string[];
+  regEx?: string;
+  minLength?: number;
+  maxLength?: number;
+  maxEntries?: number;
+  resolution?: number;
+  modes?: string[];
+  defaultMode?: string;
+  overlapAllowed?: boolean;
+  [key: string]: unknown;
+}
+
+export interface CommandParam {
+  type: 'number' | 'string' | 'boolean' | 'Schedule' | 'object' | string;
+  required: boolean;
+  constraints?: CommandParamConstraints;
+}
+
+export interface FeatureCommand {
+  uri: string;
+  name: string;
+  isExecutable: boolean;
+  params: Record<string, CommandParam>;
 }
 
 export interface Feature {
+  apiVersion: number;
   feature: string;
   gatewayId: string;
-  deviceId: string;
+  deviceId?: string;
   isEnabled: boolean;
   isReady: boolean;
-  properties: {
-    value?: {
-      type: string;
-      value: any;
-      unit?: string;
-    };
+  timestamp: string;
+  uri: string;
+  properties: FeatureProperties;
+  commands: Record<string, FeatureCommand>;
+  deprecated?: {
+    removalDate: string;
+    info: string;
   };
-  commands?: string[];
+}
+
+export interface CommandResult {
+  success: boolean;
+  reason?: string;
+  message?: string;
+}
+
+export type FeaturesResponse = ListResponse<Feature>;
+export type FeatureResponse = ItemResponse<Feature>;
+export type CommandResponse = ItemResponse<CommandResult>;
+
+/**
+ * Query options accepted by the feature list endpoints
+ */
+export interface FeatureQueryOptions {
+  regex?: string;
+  filter?: string[];
+  skipDisabled?: boolean;
+}
+
+/**
+ * Options for executing a feature command
+ */
+export interface CommandOptions {
+  /** Retry the command on transient failures (commands are never retried by default) */
+  retry?: boolean;
+  /**
+   * Validate and round the payload locally, overrides `validateCommands` of the config.
+   * `true` fetches the feature if it is neither passed nor cached.
+   */
+  validate?: boolean;
+  /** Already loaded feature to validate against, saves fetching it */
+  feature?: Feature;
+}
+
+export interface GatewayFeatureQueryOptions extends FeatureQueryOptions {
+  includeDevicesFeatures?: boolean;
 }
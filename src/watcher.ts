@@ -0,0 +1,276 @@
+import { EventEmitter } from 'events';
+import type { ViessmannClient } from './client';
+import { Feature, FeatureQueryOptions } from './types';
+import { DeviceOfflineError, reportError } from './errors';
+import { FeatureCache, patternToRegExp } from './cache';
+
+/**
+ * Something the watcher polls: a device or an installation
+ */
+export type WatchTarget =
+  | { type: 'device'; installationId: number; gatewaySerial: string; deviceId: string }
+  | { type: 'installation'; installationId: number };
+
+export interface PropertyChange {
+  name: string;
+  previous?: unknown;
+  current?: unknown;
+}
+
+export interface FeatureChange {
+  target: WatchTarget;
+  feature: string;
+  previous: Feature;
+  current: Feature;
+  /** Properties whose value changed, was added or removed */
+  properties: PropertyChange[];
+}
+
+export interface FeatureStateChange {
+  target: WatchTarget;
+  feature: string;
+  /** Undefined if the feature disappeared from the response */
+  current?: Feature;
+}
+
+export interface FeatureWatcherEvents {
+  change: [change: FeatureChange];
+  enabled: [event: FeatureStateChange];
+  disabled: [event: FeatureStateChange];
+  /** Emitted once when a device goes offline, again only after it was reachable in between */
+  deviceOffline: [target: WatchTarget, error: DeviceOfflineError];
+  error: [error: Error, target: WatchTarget];
+}
+
+export interface FeatureWatcherOptions {
+  /** Poll interval in ms (default: 60 seconds), raised if the quota doesn't allow it */
+  interval?: number;
+  /** Share of each quota window the watcher may use, between 0 and 1 (default: 0.5) */
+  quotaShare?: number;
+  /** Passed to the features request, e.g. `{ regex: 'heating\\.dhw.*' }` */
+  query?: FeatureQueryOptions;
+  /** Where poll errors go while nobody listens to `error` (default: `console.error`) */
+  log?: (message: string) => void;
+}
+
+export interface FeatureWatcher {
+  on<E extends keyof FeatureWatcherEvents>(event: E, listener: (...args: FeatureWatcherEvents[E]) => void): this;
+  once<E extends keyof FeatureWatcherEvents>(event: E, listener: (...args: FeatureWatcherEvents[E]) => void): this;
+  off<E extends keyof FeatureWatcherEvents>(event: E, listener: (...args: FeatureWatcherEvents[E]) => void): this;
+  emit<E extends keyof FeatureWatcherEvents>(event: E, ...args: FeatureWatcherEvents[E]): boolean;
+}
+
+/**
+ * Glob-like feature pattern, `*` matches any characters including dots
+ */
+export function matchFeaturePattern(pattern: string | RegExp, featureName: string): boolean {
+  return patternToRegExp(pattern).test(featureName);
+}
+
+function targetKey(target: WatchTarget): string {
+  return target.type === 'device'
+    ? FeatureCache.key(target.installationId, target.gatewaySerial, target.deviceId)
+    : `${target.installationId}`;
+}
+
+/**
+ * Properties whose value differs between two versions of a feature
+ */
+export function diffProperties(previous: Feature, current: Feature): PropertyChange[] {
+  const names = new Set([...Object.keys(previous.properties || {}), ...Object.keys(current.properties || {})]);
+  const changes: PropertyChange[] = [];
+  for (const name of names) {
+    const before = previous.properties?.[name]?.value;
+    const after = current.properties?.[name]?.value;
+    if (JSON.stringify(before) !== JSON.stringify(after)) {
+      changes.push({ name, previous: before, current: after });
+    }
+  }
+  return changes;
+}
+
+interface WatchState {
+  target: WatchTarget;
+  snapshot: Map<string, Feature> | null;
+  offline: boolean;
+}
+
+/**
+ * Polls features of devices and installations and emits events for changes.
+ * The first poll of a target only records the baseline.
+ */
+export class FeatureWatcher extends EventEmitter {
+  private targets = new Map<string, WatchState>();
+  private interval: number;
+  private quotaShare: number;
+  private query?: FeatureQueryOptions;
+  private log: (message: string) => void;
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+  /** Bumped by stop(), a poll loop only reschedules itself while its generation is current */
+  private generation = 0;
+  private polling: Promise<void> | null = null;
+
+  constructor(
+    private client: ViessmannClient,
+    options: FeatureWatcherOptions = {}
+  ) {
+    super();
+    this.interval = options.interval ?? 60 * 1000;
+    this.quotaShare = Math.min(Math.max(options.quotaShare ?? 0.5, 0.01), 1);
+    this.query = options.query;
+    this.log = options.log || (message => console.error(message));
+  }
+
+  addDevice(installationId: number, gatewaySerial: string, deviceId: string): this {
+    return this.addTarget({ type: 'device', installationId, gatewaySerial, deviceId });
+  }
+
+  addInstallation(installationId: number): this {
+    return this.addTarget({ type: 'installation', installationId });
+  }
+
+  /**
+   * Listen to changes of features matching a pattern like `heating.dhw.*`.
+   * Returns a function that removes the listener.
+   */
+  subscribe(pattern: string | RegExp, listener: (change: FeatureChange) => void): () => void {
+    const filtered = (change: FeatureChange) => {
+      if (matchFeaturePattern(pattern, change.feature)) listener(change);
+    };
+    this.on('change', filtered);
+    return () => {
+      this.off('change', filtered);
+    };
+  }
+
+  /**
+   * Interval actually used: the configured one, raised so that all targets together
+   * stay within `quotaShare` of every quota window
+   */
+  get effectiveInterval(): number {
+    const quota = this.client.getQuota();
+    let interval = this.interval;
+    for (const window of quota?.windows || []) {
+      const perCall = window.windowMs / (window.limit * this.quotaShare);
+      interval = Math.max(interval, Math.ceil(perCall * this.targets.size));
+    }
+    return interval;
+  }
+
+  get isRunning(): boolean {
+    return this.running;
+  }
+
+  /**
+   * Start polling, the first poll runs immediately
+   */
+  start(): this {
+    if (this.running) return this;
+    this.running = true;
+    this.schedule(0);
+    return this;
+  }
+
+  stop(): void {
+    this.running = false;
+    this.generation++;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Poll all targets once and emit events
+   */
+  async poll(): Promise<void> {
+    for (const state of this.targets.values()) {
+      try {
+        const features = await this.fetch(state.target);
+        state.offline = false;
+        this.compare(state, features);
+      } catch (error) {
+        if (error instanceof DeviceOfflineError) {
+          if (!state.offline) {
+            state.offline = true;
+            this.emit('deviceOffline', state.target, error);
+          }
+        } else {
+          reportError(this, this.log, `FeatureWatcher ${targetKey(state.target)}`, error, state.target);
+        }
+      }
+    }
+  }
+
+  private addTarget(target: WatchTarget): this {
+    const key = targetKey(target);
+    if (!this.targets.has(key)) {
+      this.targets.set(key, { target, snapshot: null, offline: false });
+    }
+    return this;
+  }
+
+  private schedule(delay: number): void {
+    const generation = this.generation;
+    this.timer = setTimeout(async () => {
+      this.timer = null;
+      // A poll started before stop() may still be running, don't overlap with it
+      if (this.polling) await this.polling;
+      if (generation !== this.generation) return;
+
+      const polling = this.poll();
+      this.polling = polling;
+      try {
+        await polling;
+      } finally {
+        if (this.polling === polling) this.polling = null;
+      }
+      if (this.running && generation === this.generation) this.schedule(this.nextDelay());
+    }, delay);
+  }
+
+  /**
+   * Wait longer if the API blocked us (429) until it allows calls again
+   */
+  private nextDelay(): number {
+    const blockedUntil = this.client.getQuota()?.blockedUntil;
+    const blocked = blockedUntil ? blockedUntil - Date.now() : 0;
+    return Math.max(this.effectiveInterval, blocked);
+  }
+
+  private async fetch(target: WatchTarget): Promise<Feature[]> {
+    const response = target.type === 'device'
+      ? await this.client.getDeviceFeatures(target.installationId, target.gatewaySerial, target.deviceId, this.query)
+      : await this.client.getInstallationFeatures(target.installationId, this.query);
+    return response.data;
+  }
+
+  private compare(state: WatchState, features: Feature[]): void {
+    const previous = state.snapshot;
+    const current = new Map(features.map(feature => [feature.feature, feature]));
+    state.snapshot = current;
+    if (!previous) return;
+
+    const target = state.target;
+    for (const [name, feature] of current) {
+      const before = previous.get(name);
+      if (feature.isEnabled && !before?.isEnabled) {
+        this.emit('enabled', { target, feature: name, current: feature });
+      } else if (!feature.isEnabled && before?.isEnabled) {
+        this.emit('disabled', { target, feature: name, current: feature });
+      }
+      if (before) {
+        const properties = diffProperties(before, feature);
+        if (properties.length > 0) {
+          this.emit('change', { target, feature: name, previous: before, current: feature, properties });
+        }
+      }
+    }
+    for (const [name, feature] of previous) {
+      if (!current.has(name) && feature.isEnabled) {
+        this.emit('disabled', { target, feature: name });
+      }
+    }
+  }
+}
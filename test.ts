@@ -1,4 +1,5 @@
 import { ViessmannClient } from './src/client';
+import { getPropertyValue, getUnit } from './src/features';
 import * as dotenv from 'dotenv';
 
 // Lade Umgebungsvariablen aus .env Datei
@@ -28,14 +29,14 @@ async function testViessmannClient() {
 
     // 2. Installationen abrufen
     console.log('2️⃣ Installationen abrufen...');
-    const installations = await client.getInstallations();
+    const { data: installations } = await client.getInstallations(true);
     console.log(`✅ ${installations.length} Installation(en) gefunden:`);
     
     installations.forEach((installation, index) => {
       console.log(`\n📍 Installation ${index + 1}:`);
       console.log(`   ID: ${installation.id}`);
       console.log(`   Beschreibung: ${installation.description}`);
-      console.log(`   Adresse: ${installation.address.street}, ${installation.address.postalCode} ${installation.address.city}`);
+      console.log(`   Adresse: ${installation.address.street}, ${installation.address.zip} ${installation.address.city}`);
       console.log(`   Gateways: ${installation.gateways?.length || 0}`);
       
       if (!installation.gateways || installation.gateways.length === 0) {
@@ -47,9 +48,9 @@ async function testViessmannClient() {
         console.log(`\n   🔌 Gateway ${gIndex + 1}:`);
         console.log(`      Serial: ${gateway.serial}`);
         console.log(`      Version: ${gateway.version}`);
-        console.log(`      Geräte: ${gateway.devices.length}`);
+        console.log(`      Geräte: ${gateway.devices?.length || 0}`);
         
-        gateway.devices.forEach((device, dIndex) => {
+        gateway.devices?.forEach((device, dIndex) => {
           console.log(`\n      🌡️  Gerät ${dIndex + 1}:`);
           console.log(`         ID: ${device.id}`);
           console.log(`         Serial: ${device.boilerSerial}`);
@@ -60,13 +61,13 @@ async function testViessmannClient() {
     });
 
     // 3. Features des ersten Geräts abrufen (falls vorhanden)
-    if (installations.length > 0 && installations[0].gateways?.length > 0 && installations[0].gateways[0].devices?.length > 0) {
+    if (installations.length > 0 && installations[0].gateways?.[0]?.devices?.length) {
       const installation = installations[0];
-      const gateway = installation.gateways[0];
-      const device = gateway.devices[0];
+      const gateway = installation.gateways![0];
+      const device = gateway.devices![0];
 
       console.log('\n\n3️⃣ Features abrufen...');
-      const features = await client.getFeatures(
+      const { data: features } = await client.getDeviceFeatures(
         installation.id,
         gateway.serial,
         device.id
@@ -81,12 +82,13 @@ async function testViessmannClient() {
         console.log(`   Status: ${feature.isEnabled ? '✅ Aktiviert' : '❌ Deaktiviert'} | ${feature.isReady ? '✅ Bereit' : '⏳ Nicht bereit'}`);
         
         if (feature.properties.value) {
-          const value = feature.properties.value;
-          console.log(`   Wert: ${value.value}${value.unit ? ' ' + value.unit : ''} (${value.type})`);
+          const unit = getUnit(feature);
+          console.log(`   Wert: ${getPropertyValue(feature)}${unit ? ' ' + unit : ''} (${feature.properties.value.type})`);
         }
         
-        if (feature.commands && feature.commands.length > 0) {
-          console.log(`   Befehle: ${feature.commands.join(', ')}`);
+        const commands = Object.keys(feature.commands || {});
+        if (commands.length > 0) {
+          console.log(`   Befehle: ${commands.join(', ')}`);
         }
       });
 
@@ -105,8 +107,8 @@ async function testViessmannClient() {
         heatingFeatures.slice(0, 5).forEach(feature => {
           console.log(`\n   🔥 ${feature.feature}`);
           if (feature.properties.value) {
-            const value = feature.properties.value;
-            console.log(`      Wert: ${value.value}${value.unit ? ' ' + value.unit : ''}`);
+            const unit = getUnit(feature);
+            console.log(`      Wert: ${getPropertyValue(feature)}${unit ? ' ' + unit : ''}`);
           }
         });
       } else {
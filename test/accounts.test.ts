@@ -0,0 +1,46 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { AccountManager } from '../src/accounts';
+import { MemoryTokenStore } from '../src/storage';
+import { AuthenticationError } from '../src/errors';
+import { MockViessmannServer } from '../src/mock-server';
+
+describe('AccountManager', () => {
+  const server = new MockViessmannServer({ clientId: 'test-client' });
+
+  before(() => server.start());
+  after(() => server.stop());
+
+  it('never passes shared credentials or tokens to an account client', async () => {
+    const token = server.issueToken();
+    // What a JS caller or a spread ViessmannConfig can still hand in
+    const config = {
+      clientId: 'test-client',
+      ...server.clientConfig(),
+      accessToken: token.access_token,
+      refreshToken: token.refresh_token,
+      username: 'shared@example.com',
+      password: 'secret',
+      log: () => undefined
+    };
+    const manager = new AccountManager({ config, storeFactory: () => new MemoryTokenStore() });
+    manager.addAccount('alice');
+
+    await assert.rejects(manager.getClient('alice').getInstallations(), AuthenticationError);
+    assert.equal(server.requests.length, 0);
+  });
+
+  it('uses the token of the account', async () => {
+    const stores = new Map<string, MemoryTokenStore>();
+    const manager = new AccountManager({
+      config: { clientId: 'test-client', ...server.clientConfig(), log: () => undefined },
+      storeFactory: label => stores.set(label, new MemoryTokenStore()).get(label)!
+    });
+    manager.addAccount('alice');
+    manager.addAccount('bob');
+    await stores.get('alice')!.saveToken(server.issueToken());
+
+    assert.equal((await manager.getClient('alice').getInstallations()).data.length, 1);
+    await assert.rejects(manager.getClient('bob').getInstallations(), AuthenticationError);
+  });
+});
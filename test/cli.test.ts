@@ -0,0 +1,63 @@
+import { after, afterEach, before, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as net from 'net';
+import * as os from 'os';
+import * as path from 'path';
+import { run } from '../src/cli';
+import * as oauth from '../src/oauth';
+import { MockViessmannServer } from '../src/mock-server';
+
+async function freePort(): Promise<number> {
+  const server = net.createServer();
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as net.AddressInfo;
+  await new Promise(resolve => server.close(resolve));
+  return port;
+}
+
+describe('vicare login', () => {
+  const server = new MockViessmannServer({ clientId: 'test-client' });
+  let dir: string;
+
+  before(async () => {
+    await server.start();
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'vicare-cli-'));
+  });
+  after(async () => {
+    await server.stop();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+  afterEach(() => mock.restoreAll());
+
+  it('keeps stdout clean while waiting for the browser callback', async () => {
+    // Instead of a browser, follow the authorize redirect to the callback server
+    mock.method(oauth, 'openBrowser', async (authUrl: string) => {
+      const authorized = await fetch(authUrl, { redirect: 'manual' });
+      await fetch(authorized.headers.get('location')!);
+    });
+    const consoleLog = mock.method(console, 'log', () => undefined);
+    let stdout = '';
+    let stderr = '';
+    const { apiUrl, iamUrl } = server.clientConfig();
+
+    const code = await run(['login'], {
+      stdout: text => (stdout += text),
+      stderr: text => (stderr += text),
+      env: {
+        VICARE_CONFIG: path.join(dir, 'missing.json'),
+        VIESSMANN_CLIENT_ID: 'test-client',
+        VIESSMANN_REDIRECT_URI: `http://127.0.0.1:${await freePort()}/callback`,
+        VIESSMANN_API_URL: apiUrl,
+        VIESSMANN_IAM_URL: iamUrl,
+        VIESSMANN_TOKEN_FILE: path.join(dir, 'token.json')
+      }
+    });
+
+    assert.equal(code, 0, stderr);
+    assert.equal(stdout, 'Logged in\n');
+    assert.equal(consoleLog.mock.callCount(), 0);
+    assert.match(stderr, /Waiting for OAuth callback on http:\/\/127\.0\.0\.1:\d+\/callback/);
+    assert.ok(fs.existsSync(path.join(dir, 'token.json')));
+  });
+});
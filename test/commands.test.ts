@@ -0,0 +1,56 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { describeCommand, findParamName, roundToStepping, validateParams } from '../src/commands';
+import { ValidationError } from '../src/errors';
+import { CommandParam, Feature } from '../src/types';
+import { feature } from './helpers';
+
+function withCommand(name: string, params: Record<string, CommandParam>, isExecutable = true): Feature {
+  const result = feature('heating.circuits.0.operating.programs.normal', { active: true });
+  result.commands[name] = { uri: `${result.uri}/commands/${name}`, name, isExecutable, params };
+  return result;
+}
+
+const setTemperature = withCommand('setTemperature', {
+  targetTemperature: { type: 'number', required: true, constraints: { min: 10, max: 30, stepping: 0.5 } }
+});
+
+describe('command validation', () => {
+  it('describes parameters with their constraints', () => {
+    const command = describeCommand(setTemperature, 'setTemperature');
+    assert.equal(command.isExecutable, true);
+    assert.deepEqual(command.params.map(param => [param.name, param.type, param.required, param.min, param.max, param.stepping]), [
+      ['targetTemperature', 'number', true, 10, 30, 0.5]
+    ]);
+    assert.equal(findParamName(setTemperature, 'setTemperature', 'number'), 'targetTemperature');
+  });
+
+  it('rounds numbers to the stepping before checking the range', () => {
+    assert.deepEqual(validateParams(setTemperature, 'setTemperature', { targetTemperature: 21.3 }), { targetTemperature: 21.5 });
+    assert.equal(roundToStepping(20.1, { min: 0.1, stepping: 0.2 }), 20.1);
+    assert.equal(validateParams(setTemperature, 'setTemperature', { targetTemperature: 30.2 }).targetTemperature, 30);
+    assert.throws(() => validateParams(setTemperature, 'setTemperature', { targetTemperature: 31 }), /at most 30, got 31/);
+    assert.throws(() => validateParams(setTemperature, 'setTemperature', { targetTemperature: '21' }), /must be a number/);
+  });
+
+  it('rejects missing, unknown and mistyped parameters', () => {
+    assert.throws(() => validateParams(setTemperature, 'setTemperature', {}), /targetTemperature is required/);
+    assert.throws(() => validateParams(setTemperature, 'setTemperature', { targetTemperature: 20, temperature: 20 }), /unknown parameter temperature/);
+
+    const setMode = withCommand('setMode', {
+      mode: { type: 'string', required: true, constraints: { enum: ['standby', 'heating'] } },
+      label: { type: 'string', required: false, constraints: { regEx: '^[a-z]+$', maxLength: 4 } }
+    });
+    assert.deepEqual(validateParams(setMode, 'setMode', { mode: 'heating' }), { mode: 'heating' });
+    assert.throws(() => validateParams(setMode, 'setMode', { mode: 'cooling' }), /one of standby, heating, got cooling/);
+    assert.throws(() => validateParams(setMode, 'setMode', { mode: 'heating', label: 'Eco' }), /must match/);
+    assert.throws(() => validateParams(setMode, 'setMode', { mode: 'heating', label: 'comfort' }), /at most 4 characters/);
+  });
+
+  it('refuses commands that are missing or not executable', () => {
+    const locked = withCommand('activate', {}, false);
+    assert.throws(() => validateParams(locked, 'activate'), /currently not executable/);
+    assert.throws(() => validateParams(locked, 'deactivate'), /has no command deactivate/);
+    assert.throws(() => validateParams(undefined, 'activate'), ValidationError);
+  });
+});
@@ -0,0 +1,75 @@
+import { after, before, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { ViessmannClient } from '../src/client';
+import { MemoryTokenStore } from '../src/storage';
+import { MockViessmannServer } from '../src/mock-server';
+import { discoverTopology } from '../src/topology';
+import { HeatPump } from '../src/heatpump';
+import { DomesticHotWater } from '../src/dhw';
+import { getBoolean, getNumber, getString } from '../src/features';
+
+const GATEWAY = '7633107093013212';
+
+describe('DomesticHotWater', () => {
+  const server = new MockViessmannServer({ clientId: 'test-client' });
+  let heatPump: HeatPump;
+  let dhw: DomesticHotWater;
+
+  before(async () => {
+    await server.start();
+    const token = server.issueToken();
+    const client = new ViessmannClient({
+      clientId: 'test-client',
+      ...server.clientConfig(),
+      accessToken: token.access_token,
+      tokenStore: new MemoryTokenStore(),
+      log: () => undefined
+    });
+    const [installation] = await discoverTopology(client);
+    heatPump = await HeatPump.load(installation.devices[0]);
+  });
+  after(() => server.stop());
+
+  beforeEach(async () => {
+    server.requests.length = 0;
+    await heatPump.refresh();
+    dhw = heatPump.hotWater!;
+  });
+
+  function commands(): string[] {
+    return server.requests.filter(request => request.method === 'POST').map(request => request.path.split('/features/').pop()!);
+  }
+
+  it('reads temperatures, mode and limits from the loaded features', () => {
+    assert.equal(dhw.active, true);
+    assert.equal(dhw.targetTemperature, getNumber(server.getFeature(GATEWAY, '0', 'heating.dhw.temperature.main')));
+    assert.equal(dhw.storageTemperature, 48.2);
+    assert.equal(dhw.outletTemperature, undefined);
+    assert.deepEqual(dhw.temperatureLimits, { min: 10, max: 60, stepping: 1 });
+    assert.deepEqual(dhw.availableModes, ['off', 'efficient', 'efficientWithMinComfort']);
+    assert.equal(dhw.oneTimeCharge, false);
+    assert.deepEqual(dhw.schedule?.getDay('mon'), [{ start: '05:30', end: '22:00', mode: 'normal' }]);
+  });
+
+  it('sets the target temperature under the parameter name of the firmware', async () => {
+    await dhw.setTargetTemperature(47.4);
+    assert.deepEqual(commands(), ['heating.dhw.temperature.main/commands/setTargetTemperature']);
+    assert.equal(getNumber(server.getFeature(GATEWAY, '0', 'heating.dhw.temperature.main')), 47);
+  });
+
+  it('rejects values outside the limits without calling the API', async () => {
+    await assert.rejects(dhw.setTargetTemperature(65), /at most 60/);
+    await assert.rejects(dhw.setMode('boost'), /must be one of off, efficient, efficientWithMinComfort/);
+    assert.deepEqual(commands(), []);
+  });
+
+  it('changes the mode and starts a one-time charge', async () => {
+    await dhw.setMode('efficientWithMinComfort');
+    await dhw.startOneTimeCharge();
+    assert.equal(getString(server.getFeature(GATEWAY, '0', 'heating.dhw.operating.modes.active')), 'efficientWithMinComfort');
+    assert.equal(getBoolean(server.getFeature(GATEWAY, '0', 'heating.dhw.oneTimeCharge'), 'active'), true);
+
+    // The fixture never offers deactivate, so it is refused before sending
+    await assert.rejects(dhw.stopOneTimeCharge(), /not executable/);
+  });
+});
@@ -0,0 +1,86 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { diffFeatureDumps, loadFeatureDump, parseFeatureDump, queryFeatures, saveFeatureDump } from '../src/dump';
+import { run } from '../src/cli';
+import { Feature } from '../src/types';
+import { feature } from './helpers';
+
+function withCommand(base: Feature, name: string, isExecutable: boolean): Feature {
+  return { ...base, commands: { [name]: { uri: `${base.uri}/commands/${name}`, name, isExecutable, params: {} } } };
+}
+
+const BEFORE = [
+  feature('heating.dhw.temperature.main', { value: 50 }),
+  withCommand(feature('heating.dhw.oneTimeCharge', { active: false }), 'activate', false),
+  feature('heating.sensors.temperature.return', { value: 30 }),
+  feature('heating.circuits.1', { active: true })
+];
+
+const AFTER = [
+  feature('heating.dhw.temperature.main', { value: 48 }),
+  withCommand(feature('heating.dhw.oneTimeCharge', { active: false }), 'activate', true),
+  feature('heating.sensors.temperature.return', { value: 30 }, false),
+  feature('heating.compressors.0', { active: true })
+];
+
+describe('feature dumps', () => {
+  let dir: string;
+
+  before(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'vicare-dump-'));
+  });
+  after(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+  it('saves and loads dumps in the API response format', async () => {
+    const file = path.join(dir, 'saved.json');
+    await saveFeatureDump(file, BEFORE);
+    assert.deepEqual(JSON.parse(fs.readFileSync(file, 'utf-8')).data, BEFORE);
+    assert.deepEqual(await loadFeatureDump(file), BEFORE);
+
+    assert.deepEqual(parseFeatureDump(BEFORE), BEFORE);
+    assert.deepEqual(parseFeatureDump({ data: BEFORE[0] }), [BEFORE[0]]);
+    assert.throws(() => parseFeatureDump({ items: [] }), /contains no features/);
+    assert.throws(() => parseFeatureDump([BEFORE[0], { value: 1 }]), /entry 1 is not a feature/);
+
+    fs.writeFileSync(path.join(dir, 'broken.json'), '{');
+    await assert.rejects(loadFeatureDump(path.join(dir, 'broken.json')), /Cannot read feature dump/);
+  });
+
+  it('queries like the features endpoint', () => {
+    const names = (features: Feature[]) => features.map(f => f.feature);
+    assert.deepEqual(names(queryFeatures(AFTER, { filter: ['heating.dhw.*'] })), ['heating.dhw.temperature.main', 'heating.dhw.oneTimeCharge']);
+    assert.deepEqual(names(queryFeatures(AFTER, { regex: 'heating\\.(sensors|compressors)\\..*', skipDisabled: true })), ['heating.compressors.0']);
+    // The regex has to match the whole name
+    assert.deepEqual(queryFeatures(AFTER, { regex: 'compressors' }), []);
+    assert.throws(() => queryFeatures(AFTER, { regex: '(' }), /Invalid regex/);
+  });
+
+  it('diffs features, values, enabled state and commands', () => {
+    const diff = diffFeatureDumps(BEFORE, AFTER);
+    assert.deepEqual(diff.added.map(f => f.feature), ['heating.compressors.0']);
+    assert.deepEqual(diff.removed.map(f => f.feature), ['heating.circuits.1']);
+    assert.deepEqual(diff.disabled, ['0/heating.sensors.temperature.return']);
+    assert.deepEqual(diff.changed, [
+      { feature: 'heating.dhw.temperature.main', deviceId: '0', properties: [{ name: 'value', previous: 50, current: 48 }] }
+    ]);
+    assert.deepEqual(diff.commands, [{ feature: 'heating.dhw.oneTimeCharge', deviceId: '0', command: 'activate', change: 'executable' }]);
+  });
+
+  it('compares two dump files offline with vicare diff', async () => {
+    const previous = path.join(dir, 'before.json');
+    const current = path.join(dir, 'after.json');
+    await saveFeatureDump(previous, BEFORE);
+    await saveFeatureDump(current, AFTER);
+    let stdout = '';
+
+    const code = await run(['diff', previous, current, '--filter', 'heating.dhw.*'], { stdout: text => (stdout += text), stderr: () => undefined, env: {} });
+    assert.equal(code, 0);
+    assert.deepEqual(stdout.trimEnd().split('\n'), [
+      '~ 0/heating.dhw.temperature.main changed value: 50 -> 48',
+      '* 0/heating.dhw.oneTimeCharge command executable activate'
+    ]);
+  });
+});
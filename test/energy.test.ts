@@ -0,0 +1,78 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import type { DeviceNode } from '../src/topology';
+import { HeatPump } from '../src/heatpump';
+import { Feature } from '../src/types';
+import { feature } from './helpers';
+
+// Already the 19th in Auckland (UTC+13)
+const READ_AT = '2026-10-18T12:00:00.000Z';
+
+/**
+ * Feature with `day`/`year` arrays read at READ_AT
+ */
+function energyFeature(name: string, arrays: Record<string, number[]>, unit = 'kilowattHour'): Feature {
+  const result = feature(name);
+  for (const [period, value] of Object.entries(arrays)) {
+    result.properties[period] = { type: 'array', value, unit };
+    result.properties[`${period}ValueReadAt`] = { type: 'string', value: READ_AT };
+  }
+  return result;
+}
+
+function heatPump(features: Feature[], timeZone?: string): HeatPump {
+  const device = {
+    installation: { address: timeZone ? { geolocation: { timeZone } } : undefined }
+  } as unknown as DeviceNode;
+  const pump = new HeatPump(device);
+  pump.setFeatures(features);
+  return pump;
+}
+
+describe('EnergyStatistics', () => {
+  it('dates the series in the installation time zone by default', () => {
+    const pump = heatPump([energyFeature('heating.power.consumption.total', { day: [3, 10, 12] })], 'Pacific/Auckland');
+
+    assert.deepEqual(pump.getEnergy().consumption('total', 'day')?.points, [
+      { period: 'day', start: '2026-10-17', value: 12 },
+      { period: 'day', start: '2026-10-18', value: 10 },
+      { period: 'day', start: '2026-10-19', value: 3 }
+    ]);
+    assert.equal(pump.getEnergy({ timeZone: 'UTC' }).consumption('total', 'day')?.points[2].start, '2026-10-18');
+  });
+
+  it('converts to kWh and sums heating and DHW without a total feature', () => {
+    const pump = heatPump([
+      energyFeature('heating.power.consumption.heating', { day: [2000, 4000] }, 'wattHour'),
+      energyFeature('heating.power.consumption.dhw', { day: [1, 1] }),
+      energyFeature('heating.heat.production.heating', { day: [8, 14] }),
+      energyFeature('heating.heat.production.dhw', { day: [2, 2] })
+    ], 'UTC');
+    const energy = pump.getEnergy();
+
+    assert.deepEqual(energy.consumption('total', 'day')?.points.map(point => point.value), [5, 3]);
+    assert.deepEqual(energy.cop('total', 'day').map(point => [point.start, point.cop]), [['2026-10-17', 16 / 5], ['2026-10-18', 10 / 3]]);
+  });
+
+  it('prefers the summaries for the seasonal COP', () => {
+    const summary = (name: string, lastYear: number) => {
+      const result = feature(name);
+      result.properties.lastYear = { type: 'number', value: lastYear, unit: 'kilowattHour' };
+      return result;
+    };
+    const pump = heatPump([
+      summary('heating.power.consumption.summary.total', 2500),
+      summary('heating.heat.production.summary.total', 10000),
+      energyFeature('heating.power.consumption.total', { year: [1, 1] }),
+      energyFeature('heating.heat.production.total', { year: [1, 2] })
+    ]);
+
+    assert.equal(pump.getEnergy().scop('total', 'lastYear'), 4);
+  });
+
+  it('reports power consumption in the display unit', () => {
+    const pump = heatPump([energyFeature('heating.power.consumption.total', { day: [3.5], week: [20], month: [80], year: [900] })]);
+
+    assert.deepEqual(pump.powerConsumption.total, { today: 3.5, thisWeek: 20, thisMonth: 80, thisYear: 900, unit: 'kWh' });
+  });
+});
@@ -0,0 +1,132 @@
+import { afterEach, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import type { ViessmannClient } from '../src/client';
+import { PrometheusExporter, PrometheusExporterOptions } from '../src/exporter';
+import { RateLimitError } from '../src/errors';
+import { QuotaSnapshot } from '../src/scheduler';
+import { Feature } from '../src/types';
+import { feature } from './helpers';
+
+const MINUTE = 60 * 1000;
+
+/**
+ * Client stub whose feature responses are handed out one call at a time
+ */
+function stubClient() {
+  const responses: Array<Feature[] | Error> = [];
+  let quota: QuotaSnapshot | null = null;
+  let calls = 0;
+  const client = {
+    getQuota: () => quota,
+    getDeviceFeatures: async () => {
+      calls++;
+      const next = responses.shift() ?? [];
+      if (next instanceof Error) throw next;
+      return { data: next };
+    }
+  } as unknown as ViessmannClient;
+  return { client, responses, calls: () => calls, setQuota: (value: QuotaSnapshot) => (quota = value) };
+}
+
+function exporter(client: ViessmannClient, options: PrometheusExporterOptions = {}): PrometheusExporter {
+  return new PrometheusExporter(client, { cacheTtl: 5 * MINUTE, log: () => undefined, ...options })
+    .addDevice(123456, '7633107093013212', '0');
+}
+
+describe('PrometheusExporter', () => {
+  afterEach(() => mock.timers.reset());
+
+  it('exports gauges, counters and the scrape status', async () => {
+    const stub = stubClient();
+    stub.responses.push([
+      feature('heating.sensors.temperature.outside', { value: 7.5 }),
+      feature('heating.compressors.0', { active: true }),
+      feature('heating.compressors.0.statistics', { starts: 120, hours: 300 }),
+      feature('heating.dhw.temperature.main', { value: 50 }, false)
+    ]);
+
+    const metrics = await exporter(stub.client).render();
+    const labels = 'installation="123456",gateway="7633107093013212",device="0"';
+    assert.ok(metrics.includes(`viessmann_feature_value{${labels},feature="heating.sensors.temperature.outside",property="value",unit="celsius"} 7.5\n`));
+    assert.match(metrics, /feature="heating.compressors.0",property="active",unit=""} 1\n/);
+    assert.match(metrics, /# TYPE viessmann_feature_total counter\n.*property="starts",unit="celsius"} 120\n/);
+    assert.doesNotMatch(metrics, /heating\.dhw/);
+    assert.ok(metrics.includes(`viessmann_scrape_success{${labels}} 1\n`));
+  });
+
+  it('keeps the last features and waits a cache period after a failed request', async () => {
+    mock.timers.enable({ apis: ['Date'], now: 0 });
+    const stub = stubClient();
+    stub.responses.push([feature('heating.sensors.temperature.outside', { value: 7 })], new Error('boom'));
+    const exp = exporter(stub.client);
+
+    await exp.render();
+    mock.timers.tick(5 * MINUTE);
+    let metrics = await exp.render();
+    assert.equal(stub.calls(), 2);
+    assert.match(metrics, /viessmann_scrape_success\{.*} 0/);
+    assert.match(metrics, /property="value",unit="celsius"} 7\n/);
+
+    mock.timers.tick(5 * MINUTE - 1);
+    await exp.render();
+    assert.equal(stub.calls(), 2);
+
+    mock.timers.tick(1);
+    metrics = await exp.render();
+    assert.equal(stub.calls(), 3);
+    assert.match(metrics, /viessmann_scrape_success\{.*} 1/);
+  });
+
+  it('waits until the limit resets after a 429', async () => {
+    mock.timers.enable({ apis: ['Date'], now: 0 });
+    const stub = stubClient();
+    stub.responses.push(new RateLimitError('Too many requests', { limitReset: 20 * MINUTE }));
+    const exp = exporter(stub.client);
+
+    await exp.render();
+    mock.timers.tick(20 * MINUTE - 1);
+    await exp.render();
+    assert.equal(stub.calls(), 1);
+
+    mock.timers.tick(1);
+    await exp.render();
+    assert.equal(stub.calls(), 2);
+  });
+
+  it('does not call the API while the quota is exhausted', async () => {
+    mock.timers.enable({ apis: ['Date'], now: 0 });
+    const stub = stubClient();
+    stub.setQuota({ windows: [{ name: '10min', limit: 120, windowMs: 10 * MINUTE, used: 120, remaining: 0, resetAt: 3 * MINUTE }], queued: 0 });
+    const exp = exporter(stub.client);
+
+    const metrics = await exp.render();
+    assert.equal(stub.calls(), 0);
+    assert.match(metrics, /viessmann_scrape_success\{.*} 0/);
+    assert.match(metrics, /viessmann_api_quota_remaining\{window="10min"} 0/);
+
+    mock.timers.tick(3 * MINUTE);
+    await exp.render();
+    assert.equal(stub.calls(), 1);
+  });
+
+  it('serves metrics over HTTP and reports server errors after startup', async () => {
+    const stub = stubClient();
+    stub.responses.push([feature('heating.sensors.temperature.outside', { value: 7 })]);
+    const messages: string[] = [];
+    const exp = exporter(stub.client, { port: 0, host: '127.0.0.1', log: message => messages.push(message) });
+    await exp.start();
+    try {
+      const { port } = exp.address!;
+      const response = await fetch(`http://127.0.0.1:${port}/metrics`);
+      assert.equal(response.status, 200);
+      assert.match(await response.text(), /viessmann_scrape_success\{.*} 1/);
+      assert.equal((await fetch(`http://127.0.0.1:${port}/other`)).status, 404);
+
+      const server = (exp as unknown as { server: { emit(event: string, error: Error): void } }).server;
+      server.emit('error', new Error('socket trouble'));
+      assert.deepEqual(messages, ['⚠️  PrometheusExporter: socket trouble']);
+    } finally {
+      await exp.stop();
+    }
+  });
+});
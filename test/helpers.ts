@@ -0,0 +1,50 @@
+import { Feature, FeatureProperty } from '../src/types';
+
+/**
+ * Minimal feature with plain property values, numbers get a `celsius` unit
+ */
+export function feature(name: string, values: Record<string, unknown> = {}, isEnabled = true): Feature {
+  const properties: Record<string, FeatureProperty> = {};
+  for (const [key, value] of Object.entries(values)) {
+    properties[key] = typeof value === 'number'
+      ? { type: 'number', value, unit: 'celsius' }
+      : { type: typeof value === 'boolean' ? 'boolean' : 'string', value } as FeatureProperty;
+  }
+  return {
+    apiVersion: 1,
+    feature: name,
+    gatewayId: '7633107093013212',
+    deviceId: '0',
+    isEnabled,
+    isReady: true,
+    timestamp: new Date().toISOString(),
+    uri: `https://api.viessmann-climatesolutions.com/iot/v2/features/installations/123456/gateways/7633107093013212/devices/0/features/${name}`,
+    properties,
+    commands: {}
+  };
+}
+
+/**
+ * Let pending promise callbacks run
+ */
+export async function flush(rounds = 5): Promise<void> {
+  for (let i = 0; i < rounds; i++) {
+    await new Promise(resolve => setImmediate(resolve));
+  }
+}
+
+export interface Deferred<T> {
+  promise: Promise<T>;
+  resolve(value: T): void;
+  reject(error: unknown): void;
+}
+
+export function deferred<T>(): Deferred<T> {
+  let resolve!: (value: T) => void;
+  let reject!: (error: unknown) => void;
+  const promise = new Promise<T>((res, rej) => {
+    resolve = res;
+    reject = rej;
+  });
+  return { promise, resolve, reject };
+}
@@ -0,0 +1,77 @@
+import { after, before, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { ViessmannClient } from '../src/client';
+import { MemoryTokenStore } from '../src/storage';
+import { MockViessmannServer } from '../src/mock-server';
+import { DeviceNode, discoverTopology } from '../src/topology';
+import { HolidayProgram, toHolidayDate } from '../src/holiday';
+import { getString } from '../src/features';
+
+const GATEWAY = '7633107093013212';
+const HOLIDAY = 'heating.operating.programs.holiday';
+// 2030-01-10 in Europe/Berlin, the fixture installation's time zone
+const NOW = new Date('2030-01-10T12:00:00Z');
+
+describe('HolidayProgram', () => {
+  const server = new MockViessmannServer({ clientId: 'test-client' });
+  let device: DeviceNode;
+  let holiday: HolidayProgram;
+
+  before(async () => {
+    await server.start();
+    const token = server.issueToken();
+    const client = new ViessmannClient({
+      clientId: 'test-client',
+      ...server.clientConfig(),
+      accessToken: token.access_token,
+      tokenStore: new MemoryTokenStore(),
+      log: () => undefined
+    });
+    [device] = (await discoverTopology(client))[0].devices;
+  });
+  after(() => server.stop());
+
+  beforeEach(async () => {
+    holiday = new HolidayProgram(device, 'holiday', { now: () => NOW });
+    await holiday.cancel();
+    server.requests.length = 0;
+  });
+
+  function posts(): number {
+    return server.requests.filter(request => request.method === 'POST').length;
+  }
+
+  it('schedules dates in the installation time zone', async () => {
+    // 23:30 UTC is already the next day in Berlin
+    await holiday.schedule(new Date('2030-01-14T23:30:00Z'), '2030-01-20');
+
+    const feature = server.getFeature(GATEWAY, '0', HOLIDAY);
+    assert.equal(getString(feature, 'start'), '2030-01-15');
+    assert.equal(getString(feature, 'end'), '2030-01-20');
+    assert.deepEqual(await holiday.get(), { active: false, start: '2030-01-15', end: '2030-01-20' });
+  });
+
+  it('reads timestamps as calendar days of the installation', async () => {
+    const feature = server.getFeature(GATEWAY, '0', HOLIDAY)!;
+    feature.properties.start = { type: 'string', value: '2030-01-14T23:30:00.000Z' };
+    feature.properties.end = { type: 'string', value: '2030-01-20T22:59:00.000Z' };
+
+    assert.deepEqual(await holiday.get(), { active: false, start: '2030-01-15', end: '2030-01-20' });
+    assert.deepEqual(await new HolidayProgram(device, 'holiday', { timeZone: 'UTC' }).get(), { active: false, start: '2030-01-14', end: '2030-01-20' });
+  });
+
+  it('rejects invalid periods before sending', async () => {
+    await assert.rejects(holiday.schedule('2030-01-09', '2030-01-20'), /cannot start in the past/);
+    await assert.rejects(holiday.schedule('2030-01-12', '2030-01-12'), /must end after it starts/);
+    await assert.rejects(holiday.schedule('2030-02-30', '2030-03-02'), /Invalid date 2030-02-30/);
+    await assert.rejects(holiday.changeEndDate('2030-01-20'), /No holiday period scheduled/);
+    assert.equal(posts(), 0);
+    assert.throws(() => toHolidayDate(new Date('nope')), /Invalid date/);
+  });
+
+  it('cancels a scheduled period', async () => {
+    await holiday.schedule('2030-01-12', '2030-01-13');
+    await holiday.cancel();
+    assert.deepEqual(await holiday.get(), { active: false, start: undefined, end: undefined });
+  });
+});
@@ -0,0 +1,206 @@
+import { after, before, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { ViessmannClient } from '../src/client';
+import { MemoryTokenStore } from '../src/storage';
+import { ViessmannConfig } from '../src/types';
+import { DeviceOfflineError, RateLimitError, TokenExpiredError, ValidationError } from '../src/errors';
+import { MockViessmannServer } from '../src/mock-server';
+import { getNumber } from '../src/features';
+
+const INSTALLATION = 123456;
+const GATEWAY = '7633107093013212';
+const DEVICE = '0';
+const DHW_TARGET = 'heating.dhw.temperature.main';
+
+describe('ViessmannClient against the mock server', () => {
+  const server = new MockViessmannServer({ clientId: 'test-client' });
+
+  before(() => server.start());
+  after(() => server.stop());
+
+  beforeEach(() => {
+    server.clearFaults();
+    server.setDeviceOffline(GATEWAY, DEVICE, false);
+    server.requests.length = 0;
+  });
+
+  /**
+   * Client with a freshly issued token and fast retries
+   */
+  function createClient(config: Partial<ViessmannConfig> = {}): ViessmannClient {
+    const token = server.issueToken();
+    return new ViessmannClient({
+      clientId: 'test-client',
+      ...server.clientConfig(),
+      accessToken: token.access_token,
+      refreshToken: token.refresh_token,
+      tokenStore: new MemoryTokenStore(),
+      retry: { minDelay: 1, maxDelay: 5 },
+      log: () => undefined,
+      ...config
+    });
+  }
+
+  function requests(method: string, path: string): number {
+    return server.requests.filter(request => request.method === method && request.path.endsWith(path)).length;
+  }
+
+  async function dhwTarget(client: ViessmannClient): Promise<number | undefined> {
+    return getNumber((await client.getDeviceFeature(INSTALLATION, GATEWAY, DEVICE, DHW_TARGET)).data);
+  }
+
+  function serverDhwTarget(): number | undefined {
+    return getNumber(server.getFeature(GATEWAY, DEVICE, DHW_TARGET));
+  }
+
+  it('logs in with PKCE and refreshes the token', async () => {
+    const tokenStore = new MemoryTokenStore();
+    const client = new ViessmannClient({
+      clientId: 'test-client',
+      ...server.clientConfig(),
+      tokenStore,
+      log: () => undefined
+    });
+
+    await client.authenticateHeadless(async authUrl => {
+      const response = await fetch(authUrl, { redirect: 'manual' });
+      assert.equal(response.status, 302);
+      return response.headers.get('location')!;
+    });
+    const stored = await tokenStore.loadToken();
+    assert.ok(stored?.refresh_token);
+
+    await client.refreshToken();
+    assert.notEqual((await tokenStore.loadToken())?.access_token, stored.access_token);
+    assert.equal((await client.getInstallations()).data[0].id, INSTALLATION);
+  });
+
+  it('rejects a code exchange with the wrong PKCE verifier', async () => {
+    const authUrl = new URL(`${server.iamUrl}/authorize`);
+    authUrl.search = new URLSearchParams({
+      client_id: 'test-client',
+      redirect_uri: 'http://localhost:4200/',
+      response_type: 'code',
+      code_challenge: 'not-the-challenge-of-the-verifier',
+      code_challenge_method: 'S256'
+    }).toString();
+    const redirect = await fetch(authUrl, { redirect: 'manual' });
+    const code = new URL(redirect.headers.get('location')!).searchParams.get('code')!;
+
+    const response = await fetch(`${server.iamUrl}/token`, {
+      method: 'POST',
+      body: new URLSearchParams({
+        grant_type: 'authorization_code',
+        client_id: 'test-client',
+        redirect_uri: 'http://localhost:4200/',
+        code,
+        code_verifier: 'some-other-verifier'
+      })
+    });
+    assert.equal(response.status, 400);
+    assert.equal(((await response.json()) as { error: string }).error, 'invalid_grant');
+  });
+
+  it('refreshes the token on 401 and replays the request', async () => {
+    const client = createClient();
+    server.expireTokens();
+
+    assert.equal(await dhwTarget(client), serverDhwTarget());
+    assert.equal(requests('POST', '/idp/v3/token'), 1);
+    assert.deepEqual(
+      server.requests.filter(request => request.path.endsWith(DHW_TARGET)).map(request => request.status),
+      [401, 200]
+    );
+  });
+
+  it('fails with TokenExpiredError when the refresh token is revoked', async () => {
+    const client = createClient();
+    server.revokeTokens();
+
+    await assert.rejects(dhwTarget(client), TokenExpiredError);
+  });
+
+  it('retries a 502 with backoff', async () => {
+    const client = createClient();
+    server.inject({ type: 'serverError', status: 502 }, { path: `*/${DHW_TARGET}`, times: 2 });
+
+    assert.equal(await dhwTarget(client), serverDhwTarget());
+    assert.equal(requests('GET', DHW_TARGET), 3);
+  });
+
+  it('maps an offline device to DeviceOfflineError', async () => {
+    const client = createClient();
+    server.setDeviceOffline(GATEWAY, DEVICE);
+
+    await assert.rejects(dhwTarget(client), DeviceOfflineError);
+    const devices = (await client.getDevices(INSTALLATION, GATEWAY)).data;
+    assert.equal(devices.find(device => device.id === DEVICE)?.status, 'Offline');
+  });
+
+  it('maps 429 to RateLimitError and blocks the scheduler until limitReset', async () => {
+    const client = createClient({ rateLimit: { mode: 'reject' } });
+    const limitReset = Date.now() + 60 * 60 * 1000;
+    server.inject({ type: 'rateLimit', limitReset });
+
+    await assert.rejects(dhwTarget(client), (error: unknown) => {
+      assert.ok(error instanceof RateLimitError);
+      assert.equal(error.limitReset, limitReset);
+      return true;
+    });
+    assert.equal(client.getQuota()?.blockedUntil, limitReset);
+
+    // Held back locally, the server doesn't see the call
+    await assert.rejects(dhwTarget(client), RateLimitError);
+    assert.equal(requests('GET', DHW_TARGET), 1);
+  });
+
+  it('validates command params locally before sending', async () => {
+    const client = createClient();
+    const { data: feature } = await client.getDeviceFeature(INSTALLATION, GATEWAY, DEVICE, DHW_TARGET);
+
+    await assert.rejects(
+      client.executeDeviceFeatureCommand(INSTALLATION, GATEWAY, DEVICE, DHW_TARGET, 'setTargetTemperature', { temperature: 75 }, { feature }),
+      ValidationError
+    );
+    assert.equal(requests('POST', '/setTargetTemperature'), 0);
+  });
+
+  it('maps server-side command validation errors to ValidationError', async () => {
+    const client = createClient();
+
+    await assert.rejects(
+      client.executeDeviceFeatureCommand(INSTALLATION, GATEWAY, DEVICE, DHW_TARGET, 'setTargetTemperature', { temperature: 75 }, { validate: false }),
+      (error: unknown) => error instanceof ValidationError && error.status === 400
+    );
+    assert.equal(requests('POST', '/setTargetTemperature'), 1);
+  });
+
+  it('sends commands without fetching the feature first', async () => {
+    const client = createClient();
+
+    await client.executeDeviceFeatureCommand(INSTALLATION, GATEWAY, DEVICE, DHW_TARGET, 'setTargetTemperature', { temperature: 47 });
+    assert.equal(requests('GET', DHW_TARGET), 0);
+    assert.equal(serverDhwTarget(), 47);
+  });
+
+  it('sets the comfort temperature when no program is given', async () => {
+    const client = createClient();
+
+    await client.setHeatingTemperature(INSTALLATION, GATEWAY, DEVICE, 23);
+    assert.equal(getNumber(server.getFeature(GATEWAY, DEVICE, 'heating.circuits.0.operating.programs.comfort'), 'temperature'), 23);
+    assert.equal(requests('POST', 'operating.programs.comfort/commands/setTemperature'), 1);
+  });
+
+  it('invalidates cached features after a command', async () => {
+    const client = createClient({ cache: true });
+    const current = serverDhwTarget()!;
+
+    assert.equal(await dhwTarget(client), current);
+    assert.equal(await dhwTarget(client), current);
+    assert.equal(requests('GET', DHW_TARGET), 1);
+
+    await client.executeDeviceFeatureCommand(INSTALLATION, GATEWAY, DEVICE, DHW_TARGET, 'setTargetTemperature', { temperature: current + 1 });
+    assert.equal(await dhwTarget(client), current + 1);
+    assert.equal(requests('GET', DHW_TARGET), 2);
+  });
+});
@@ -0,0 +1,173 @@
+import { after, afterEach, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { once } from 'events';
+import { ViessmannClient } from '../src/client';
+import { MemoryTokenStore } from '../src/storage';
+import { MemoryMqttBroker, MqttBridge, MqttBridgeOptions } from '../src/mqtt';
+import { MockViessmannServer } from '../src/mock-server';
+import { DEFAULT_FIXTURE, MockFixture } from '../src/mock-fixtures';
+import { getNumber } from '../src/features';
+
+const INSTALLATION = 123456;
+const GATEWAY = '7633107093013212';
+const SECOND_GATEWAY = '7633107093013299';
+const DHW_TARGET = 'heating.dhw.temperature.main';
+
+/**
+ * Default fixture with a copy of its gateway under a second serial
+ */
+function twoGatewayFixture(): MockFixture {
+  const fixture = structuredClone(DEFAULT_FIXTURE);
+  const [installation] = fixture.installations;
+  const second = structuredClone(installation.gateways[0]);
+  second.gateway.serial = SECOND_GATEWAY;
+  installation.gateways.push(second);
+  return fixture;
+}
+
+describe('MqttBridge', () => {
+  const server = new MockViessmannServer({ clientId: 'test-client', fixture: twoGatewayFixture() });
+  let bridge: MqttBridge | undefined;
+
+  before(() => server.start());
+  after(() => server.stop());
+  afterEach(() => bridge?.stop());
+
+  function createBridge(broker: MemoryMqttBroker, options: MqttBridgeOptions = {}): MqttBridge {
+    const token = server.issueToken();
+    const client = new ViessmannClient({
+      clientId: 'test-client',
+      ...server.clientConfig(),
+      accessToken: token.access_token,
+      tokenStore: new MemoryTokenStore(),
+      log: () => undefined
+    });
+    bridge = new MqttBridge(client, broker.connect(), { log: () => undefined, ...options });
+    return bridge;
+  }
+
+  async function startBridge(broker: MemoryMqttBroker, options: MqttBridgeOptions = {}): Promise<MqttBridge> {
+    const running = createBridge(broker, options).addDevice(INSTALLATION, GATEWAY, '0', 'Wärmepumpe');
+    const published = once(running, 'published');
+    running.start();
+    await published;
+    return running;
+  }
+
+  /**
+   * Publish from a second connection and wait for the first message on `replyTopic`
+   */
+  async function send(broker: MemoryMqttBroker, topic: string, message: string, replyTopic: string): Promise<string> {
+    const connection = broker.connect();
+    connection.subscribe(replyTopic);
+    const reply = once(connection, 'message');
+    connection.publish(topic, message);
+    const [, payload] = await reply;
+    connection.end();
+    return payload.toString();
+  }
+
+  it('publishes states, availability and Home Assistant discovery', async () => {
+    const broker = new MemoryMqttBroker();
+    await startBridge(broker);
+
+    assert.equal(broker.retained.get('viessmann/bridge/status'), 'online');
+    assert.equal(broker.retained.get(`viessmann/${INSTALLATION}/0/availability`), 'online');
+    assert.equal(JSON.parse(broker.retained.get(`viessmann/${INSTALLATION}/0/${DHW_TARGET}`)!).value, getNumber(server.getFeature(GATEWAY, '0', DHW_TARGET)));
+
+    const waterHeater = JSON.parse(broker.retained.get(`homeassistant/water_heater/viessmann_${INSTALLATION}_${GATEWAY}_0_heating_dhw/config`)!);
+    assert.equal(waterHeater.temperature_command_topic, `viessmann/${INSTALLATION}/0/${DHW_TARGET}/setTargetTemperature/set`);
+    assert.equal(waterHeater.min_temp, 10);
+    assert.equal(waterHeater.max_temp, 60);
+    assert.deepEqual(waterHeater.availability.map((entry: { topic: string }) => entry.topic), [
+      'viessmann/bridge/status',
+      `viessmann/${INSTALLATION}/0/availability`
+    ]);
+
+    const climate = JSON.parse(broker.retained.get(`homeassistant/climate/viessmann_${INSTALLATION}_${GATEWAY}_0_heating_circuits_0/config`)!);
+    assert.equal(climate.temperature_command_topic, `viessmann/${INSTALLATION}/0/heating.circuits.0.operating.programs.normal/setTemperature/set`);
+
+    const outside = JSON.parse(broker.retained.get(`homeassistant/sensor/viessmann_${INSTALLATION}_${GATEWAY}_0_heating_sensors_temperature_outside_value/config`)!);
+    assert.equal(outside.unit_of_measurement, '°C');
+    assert.equal(outside.device_class, 'temperature');
+  });
+
+  it('turns a set message into a validated command and publishes the new state', async () => {
+    const broker = new MemoryMqttBroker();
+    const running = await startBridge(broker);
+    const command = once(running, 'command');
+
+    const state = await send(broker, `viessmann/${INSTALLATION}/0/${DHW_TARGET}/setTargetTemperature/set`, '46', `viessmann/${INSTALLATION}/0/${DHW_TARGET}`);
+    const [executed] = await command;
+    assert.deepEqual(executed.params, { temperature: 46 });
+    assert.equal(getNumber(server.getFeature(GATEWAY, '0', DHW_TARGET)), 46);
+    assert.equal(JSON.parse(state).value, 46);
+  });
+
+  it('answers a rejected set message on the error topic and logs it', async () => {
+    const broker = new MemoryMqttBroker();
+    const messages: string[] = [];
+    await startBridge(broker, { log: message => messages.push(message) });
+    server.requests.length = 0;
+
+    const commandTopic = `viessmann/${INSTALLATION}/0/${DHW_TARGET}/setTargetTemperature`;
+    const reply = JSON.parse(await send(broker, `${commandTopic}/set`, '99', `${commandTopic}/error`));
+    assert.equal(reply.error, 'ValidationError');
+    assert.match(reply.message, /99/);
+    assert.equal(messages.length, 1);
+    assert.equal(server.requests.filter(request => request.method === 'POST').length, 0);
+  });
+
+  it('emits rejected set messages as error events when someone listens', async () => {
+    const broker = new MemoryMqttBroker();
+    const running = await startBridge(broker);
+    const error = once(running, 'error');
+
+    const reply = JSON.parse(await send(broker, `viessmann/${INSTALLATION}/9/${DHW_TARGET}/setTargetTemperature/set`, '50', `viessmann/${INSTALLATION}/9/${DHW_TARGET}/setTargetTemperature/error`));
+    const [err, topic] = await error;
+    assert.equal(reply.message, `Unknown device ${INSTALLATION}/9`);
+    assert.equal(err.message, reply.message);
+    assert.equal(topic, `viessmann/${INSTALLATION}/9/${DHW_TARGET}/setTargetTemperature/set`);
+  });
+
+  it('qualifies device topics with the gateway serial when several gateways are bridged', async () => {
+    const broker = new MemoryMqttBroker();
+    const running = createBridge(broker)
+      .addDevice(INSTALLATION, GATEWAY, '0')
+      .addDevice(INSTALLATION, SECOND_GATEWAY, '0');
+    await running.poll();
+    running.start();
+
+    for (const serial of [GATEWAY, SECOND_GATEWAY]) {
+      assert.equal(broker.retained.get(`viessmann/${INSTALLATION}/${serial}-0/availability`), 'online');
+      assert.ok(broker.retained.has(`viessmann/${INSTALLATION}/${serial}-0/${DHW_TARGET}`));
+    }
+    assert.ok(!Array.from(broker.retained.keys()).some(topic => topic.startsWith(`viessmann/${INSTALLATION}/0/`)));
+
+    const before = getNumber(server.getFeature(GATEWAY, '0', DHW_TARGET));
+    const state = await send(broker, `viessmann/${INSTALLATION}/${SECOND_GATEWAY}-0/${DHW_TARGET}/setTargetTemperature/set`, '44', `viessmann/${INSTALLATION}/${SECOND_GATEWAY}-0/${DHW_TARGET}`);
+    assert.equal(JSON.parse(state).value, 44);
+    assert.equal(getNumber(server.getFeature(SECOND_GATEWAY, '0', DHW_TARGET)), 44);
+    assert.equal(getNumber(server.getFeature(GATEWAY, '0', DHW_TARGET)), before);
+
+    const reply = JSON.parse(await send(broker, `viessmann/${INSTALLATION}/0/${DHW_TARGET}/setTargetTemperature/set`, '44', `viessmann/${INSTALLATION}/0/${DHW_TARGET}/setTargetTemperature/error`));
+    assert.equal(reply.message, `Unknown device ${INSTALLATION}/0`);
+  });
+
+  it('moves an already published device when a second gateway is added', async () => {
+    const broker = new MemoryMqttBroker();
+    const running = await startBridge(broker);
+    const discoveryTopic = `homeassistant/water_heater/viessmann_${INSTALLATION}_${GATEWAY}_0_heating_dhw/config`;
+    assert.ok(broker.retained.has(`viessmann/${INSTALLATION}/0/${DHW_TARGET}`));
+
+    running.addDevice(INSTALLATION, SECOND_GATEWAY, '0');
+    assert.ok(!Array.from(broker.retained.keys()).some(topic => topic.startsWith(`viessmann/${INSTALLATION}/0/`)));
+
+    await running.poll();
+    assert.equal(broker.retained.get(`viessmann/${INSTALLATION}/${GATEWAY}-0/availability`), 'online');
+    assert.ok(broker.retained.has(`viessmann/${INSTALLATION}/${GATEWAY}-0/${DHW_TARGET}`));
+    const waterHeater = JSON.parse(broker.retained.get(discoveryTopic)!);
+    assert.equal(waterHeater.temperature_command_topic, `viessmann/${INSTALLATION}/${GATEWAY}-0/${DHW_TARGET}/setTargetTemperature/set`);
+    assert.equal(waterHeater.availability[1].topic, `viessmann/${INSTALLATION}/${GATEWAY}-0/availability`);
+  });
+});
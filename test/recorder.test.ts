@@ -0,0 +1,114 @@
+import { afterEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import type { ViessmannClient } from '../src/client';
+import { FeatureRecorder, FeatureRecorderOptions, RecordedDevice } from '../src/recorder';
+import { DeviceOfflineError } from '../src/errors';
+import { Feature } from '../src/types';
+import { feature } from './helpers';
+
+const GATEWAY = '7633107093013212';
+const HOUR = 60 * 60 * 1000;
+
+function device(deviceId: string): RecordedDevice {
+  return { installationId: 123456, gatewaySerial: GATEWAY, deviceId };
+}
+
+/**
+ * Client stub answering per device ID, an Error is thrown instead
+ */
+function stubClient(responses: Record<string, Feature[] | Error>): ViessmannClient {
+  return {
+    getDeviceFeatures: async (_installationId: number, _gatewaySerial: string, deviceId: string) => {
+      const response = responses[deviceId];
+      if (response instanceof Error) throw response;
+      return { data: response };
+    }
+  } as unknown as ViessmannClient;
+}
+
+describe('FeatureRecorder', () => {
+  let recorder: FeatureRecorder | undefined;
+
+  afterEach(() => recorder?.close());
+
+  function create(client: ViessmannClient, options: FeatureRecorderOptions = {}): FeatureRecorder {
+    recorder = new FeatureRecorder(client, { path: ':memory:', log: () => undefined, ...options });
+    return recorder;
+  }
+
+  it('records numbers, booleans and strings of the selected features', async () => {
+    const client = stubClient({
+      '0': [
+        feature('heating.sensors.temperature.outside', { value: 7.5 }),
+        feature('heating.compressors.0', { active: true, phase: 'heating' }),
+        feature('heating.dhw.temperature.main', { value: 50 }),
+        feature('heating.sensors.temperature.return', { value: 30 }, false)
+      ]
+    });
+    const rec = create(client, { features: ['heating.sensors.*', 'heating.compressors.*'] }).addDevice(123456, GATEWAY, '0');
+
+    assert.equal(await rec.snapshot(), 3);
+    assert.deepEqual(
+      rec.listSeries().map(series => `${series.feature}.${series.property}=${series.samples}`),
+      ['heating.compressors.0.active=1', 'heating.compressors.0.phase=1', 'heating.sensors.temperature.outside.value=1']
+    );
+    assert.deepEqual(rec.query({ feature: 'heating.compressors.0', property: 'phase' }).map(sample => sample.value), ['heating']);
+
+    // Same feature timestamps, nothing new
+    assert.equal(await rec.snapshot(), 0);
+  });
+
+  it('keeps recording other devices when one fails and reports the failing one', async () => {
+    const offline = new DeviceOfflineError('offline');
+    const rec = create(stubClient({ '0': [feature('heating.sensors.temperature.outside', { value: 7 })], '1': offline }))
+      .addDevice(123456, GATEWAY, '1')
+      .addDevice(123456, GATEWAY, '0');
+    const errors: Array<[Error, RecordedDevice | undefined]> = [];
+    rec.on('error', (error, failed) => errors.push([error, failed]));
+
+    assert.equal(await rec.snapshot(), 1);
+    assert.deepEqual(errors, [[offline, device('1')]]);
+  });
+
+  it('logs snapshot errors nobody listens to', async () => {
+    const messages: string[] = [];
+    const rec = create(stubClient({ '0': new Error('boom') }), { log: message => messages.push(message) })
+      .addDevice(123456, GATEWAY, '0');
+
+    await rec.snapshot();
+    assert.equal(messages.length, 1);
+    assert.match(messages[0], /123456\/7633107093013212\/0: boom/);
+  });
+
+  it('prunes by retention rule after every snapshot, even a failed one', async () => {
+    const rec = create(stubClient({ '0': new Error('boom') }), {
+      useFeatureTimestamp: false,
+      retention: { maxAge: 24 * HOUR, rules: [{ pattern: 'heating.compressors.*', maxAge: HOUR }] }
+    }).addDevice(123456, GATEWAY, '0');
+    const now = Date.now();
+    for (const age of [30 * HOUR, 2 * HOUR, 0]) {
+      rec.record(device('0'), [
+        feature('heating.compressors.0.statistics', { hours: 100 }),
+        feature('heating.sensors.temperature.outside', { value: 5 })
+      ], now - age);
+    }
+
+    await rec.snapshot();
+    const ages = (name: string, property = 'value') => rec.query({ feature: name, property }).map(sample => now - sample.timestamp);
+    assert.deepEqual(ages('heating.compressors.0.statistics', 'hours'), [0]);
+    assert.deepEqual(ages('heating.sensors.temperature.outside'), [2 * HOUR, 0]);
+  });
+
+  it('aggregates numeric samples into buckets', () => {
+    const rec = create(stubClient({}), { useFeatureTimestamp: false });
+    const start = Math.floor(Date.now() / HOUR) * HOUR - 2 * HOUR;
+    for (const [offset, value] of [[0, 4], [HOUR / 2, 6], [HOUR, 10]]) {
+      rec.record(device('0'), [feature('heating.sensors.temperature.outside', { value })], start + offset);
+    }
+
+    assert.deepEqual(
+      rec.aggregate({ feature: 'heating.sensors.temperature.outside', bucket: HOUR }).map(({ start: bucket, avg, min, max, count }) => [bucket - start, avg, min, max, count]),
+      [[0, 5, 4, 6, 2], [HOUR, 10, 10, 10, 1]]
+    );
+  });
+});
@@ -0,0 +1,90 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { ViessmannClient } from '../src/client';
+import { MemoryTokenStore } from '../src/storage';
+import { MockViessmannServer } from '../src/mock-server';
+import { discoverTopology } from '../src/topology';
+import { HeatPump } from '../src/heatpump';
+import { Schedule, ScheduleConstraints } from '../src/schedule';
+import { getProperty } from '../src/features';
+
+const CONSTRAINTS: ScheduleConstraints = { modes: ['reduced', 'normal', 'fixed'], maxEntries: 2, resolution: 10, defaultMode: 'reduced', overlapAllowed: false };
+
+function daily(): Schedule {
+  return new Schedule({}, CONSTRAINTS).setDays('all', [{ start: '06:00', end: '22:00', mode: 'normal' }]);
+}
+
+describe('Schedule', () => {
+  it('edits days and serializes positions in start order', () => {
+    const schedule = daily()
+      .setDays('weekend', [{ start: '08:00', end: '23:00', mode: 'normal' }])
+      .addSlot('mon', { start: '00:00', end: '05:00', mode: 'fixed' });
+
+    assert.deepEqual(schedule.toPayload().mon, [
+      { start: '00:00', end: '05:00', mode: 'fixed', position: 0 },
+      { start: '06:00', end: '22:00', mode: 'normal', position: 1 }
+    ]);
+    assert.equal(schedule.modeAt('sat', '07:00'), 'reduced');
+    assert.equal(schedule.modeAt('sun', '22:30'), 'normal');
+    assert.equal(schedule.modeAt('mon', '04:59'), 'fixed');
+    assert.throws(() => schedule.clearDay('someday' as never), /Unknown weekday someday/);
+  });
+
+  it('lists added and removed slots against the current schedule', () => {
+    const current = daily();
+    const edited = current.clone().removeSlot('fri', '06:00').addSlot('fri', { start: '05:00', end: '21:00', mode: 'normal' });
+
+    assert.deepEqual(edited.diff(current), [
+      { day: 'fri', type: 'removed', slot: { start: '06:00', end: '22:00', mode: 'normal' } },
+      { day: 'fri', type: 'added', slot: { start: '05:00', end: '21:00', mode: 'normal' } }
+    ]);
+    assert.ok(current.equals(daily()));
+  });
+
+  it('validates against the setSchedule constraints', () => {
+    assert.doesNotThrow(() => daily().validate());
+    assert.throws(() => daily().addSlot('tue', { start: '21:00', end: '23:00', mode: 'normal' }).validate(), /21:00-23:00 on tue overlap/);
+    assert.throws(() => daily().addSlot('tue', { start: '22:05', end: '23:00', mode: 'normal' }).validate(), /multiples of 10 minutes/);
+    assert.throws(() => daily().addSlot('tue', { start: '22:00', end: '23:00', mode: 'comfort' }).validate(), /got comfort on tue/);
+    assert.throws(() => daily().addSlot('tue', { start: '23:00', end: '22:30', mode: 'normal' }).validate(), /ends before it starts/);
+    assert.throws(
+      () => daily().addSlot('tue', { start: '00:00', end: '01:00', mode: 'fixed' }).addSlot('tue', { start: '23:00', end: '24:00', mode: 'fixed' }).validate(),
+      /at most 2 entries per day, got 3 on tue/
+    );
+  });
+});
+
+describe('HeatPump schedules', () => {
+  const server = new MockViessmannServer({ clientId: 'test-client' });
+  let heatPump: HeatPump;
+
+  before(async () => {
+    await server.start();
+    const token = server.issueToken();
+    const client = new ViessmannClient({
+      clientId: 'test-client',
+      ...server.clientConfig(),
+      accessToken: token.access_token,
+      tokenStore: new MemoryTokenStore(),
+      log: () => undefined
+    });
+    const [installation] = await discoverTopology(client);
+    heatPump = await HeatPump.load(installation.devices[0]);
+  });
+  after(() => server.stop());
+
+  it('reads the circuit schedule with its constraints and writes it back', async () => {
+    const circuit = heatPump.getCircuit(0)!;
+    const schedule = circuit.schedule!;
+    assert.equal(schedule.active, true);
+    assert.deepEqual(schedule.constraints, { modes: ['reduced', 'normal', 'fixed'], maxEntries: 8, resolution: 10, defaultMode: 'reduced', overlapAllowed: false });
+
+    await circuit.setSchedule(schedule.setDays('weekend', [{ start: '07:00', end: '23:00', mode: 'normal' }]));
+    const entries = getProperty(server.getFeature('7633107093013212', '0', 'heating.circuits.0.heating.schedule'), 'entries');
+    assert.deepEqual(entries?.value, schedule.toPayload());
+
+    const requests = server.requests.length;
+    await assert.rejects(circuit.setSchedule(schedule.addSlot('mon', { start: '10:00', end: '11:00', mode: 'comfort' })), /got comfort on mon/);
+    assert.equal(server.requests.length, requests);
+  });
+});
@@ -0,0 +1,96 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { EncryptedFileTokenStore, FileTokenStore, MemoryTokenStore, isStoredTokenExpired } from '../src/storage';
+import { ValidationError } from '../src/errors';
+import { AuthToken } from '../src/types';
+
+const TOKEN: AuthToken = {
+  access_token: 'access-token',
+  refresh_token: 'refresh-token',
+  token_type: 'Bearer',
+  expires_in: 3600
+};
+
+const ENV_VAR = 'VIESSMANN_TEST_TOKEN_KEY';
+
+describe('token stores', () => {
+  let directory: string;
+
+  before(async () => {
+    directory = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'viessmann-storage-'));
+  });
+  after(async () => {
+    delete process.env[ENV_VAR];
+    await fs.promises.rm(directory, { recursive: true, force: true });
+  });
+
+  function file(name: string): string {
+    return path.join(directory, name);
+  }
+
+  it('keeps created_at of a stored token', async () => {
+    const store = new MemoryTokenStore();
+    const createdAt = Date.now() - 2 * 60 * 60 * 1000;
+
+    await store.saveToken({ ...TOKEN, created_at: createdAt } as AuthToken);
+    const stored = (await store.loadToken())!;
+    assert.equal(stored.created_at, createdAt);
+    assert.ok(isStoredTokenExpired(stored));
+  });
+
+  it('writes token files with owner-only permissions', async () => {
+    const tokenPath = file('token.json');
+    const store = new FileTokenStore(tokenPath);
+
+    await store.saveToken(TOKEN);
+    assert.equal((await fs.promises.stat(tokenPath)).mode & 0o777, 0o600);
+    assert.equal((await store.loadToken())?.access_token, TOKEN.access_token);
+    assert.deepEqual(await fs.promises.readdir(directory), ['token.json']);
+
+    await store.deleteToken();
+    assert.equal(await store.loadToken(), null);
+  });
+
+  it('encrypts with a passphrase and fails closed with the wrong one', async () => {
+    const tokenPath = file('passphrase.enc');
+    await new EncryptedFileTokenStore({ tokenPath, passphrase: 'correct horse' }).saveToken(TOKEN);
+
+    const content = await fs.promises.readFile(tokenPath, 'utf-8');
+    assert.ok(!content.includes(TOKEN.access_token));
+    assert.equal(JSON.parse(content).kdf, 'scrypt');
+    assert.equal((await new EncryptedFileTokenStore({ tokenPath, passphrase: 'correct horse' }).loadToken())?.access_token, TOKEN.access_token);
+    assert.equal(await new EncryptedFileTokenStore({ tokenPath, passphrase: 'battery staple' }).loadToken(), null);
+  });
+
+  it('uses a raw hex or base64 key from the environment directly', async () => {
+    const key = crypto.randomBytes(32);
+
+    for (const [name, value] of [['hex', key.toString('hex')], ['base64', key.toString('base64')]]) {
+      const tokenPath = file(`env-${name}.enc`);
+      process.env[ENV_VAR] = value;
+      await new EncryptedFileTokenStore({ tokenPath, envVar: ENV_VAR }).saveToken(TOKEN);
+
+      assert.equal(JSON.parse(await fs.promises.readFile(tokenPath, 'utf-8')).kdf, 'none');
+      assert.equal((await new EncryptedFileTokenStore({ tokenPath, key }).loadToken())?.access_token, TOKEN.access_token);
+    }
+  });
+
+  it('still reads files written with the environment value as passphrase', async () => {
+    const tokenPath = file('legacy.enc');
+    const value = crypto.randomBytes(32).toString('hex');
+    await new EncryptedFileTokenStore({ tokenPath, passphrase: value }).saveToken(TOKEN);
+
+    process.env[ENV_VAR] = value;
+    assert.equal((await new EncryptedFileTokenStore({ tokenPath, envVar: ENV_VAR }).loadToken())?.access_token, TOKEN.access_token);
+  });
+
+  it('rejects missing and malformed keys', () => {
+    delete process.env[ENV_VAR];
+    assert.throws(() => new EncryptedFileTokenStore({ envVar: ENV_VAR }), ValidationError);
+    assert.throws(() => new EncryptedFileTokenStore({ key: Buffer.alloc(16) }), ValidationError);
+  });
+});
@@ -0,0 +1,71 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import type { ViessmannClient } from '../src/client';
+import { discoverTopology } from '../src/topology';
+import { Device, Gateway, Installation, ListResponse } from '../src/types';
+
+function installation(id: number, gateways?: Gateway[]): Installation {
+  return { id, description: `Installation ${id}`, aggregatedStatus: 'WorksProperly', gateways } as Installation;
+}
+
+function gateway(serial: string, devices?: Device[]): Gateway {
+  return { serial, aggregatedStatus: 'WorksProperly', devices } as Gateway;
+}
+
+function device(id: string, status: Device['status'] = 'Online'): Device {
+  return { id, status, deviceType: 'heating', roles: [] } as unknown as Device;
+}
+
+/**
+ * Serve `items` in pages of `size`, the cursor is the offset of the next page
+ */
+function paged<T>(items: T[], size: number, cursor?: string): ListResponse<T> {
+  const offset = Number(cursor || 0);
+  const next = offset + size < items.length ? String(offset + size) : undefined;
+  return { data: items.slice(offset, offset + size), ...(next ? { cursor: { next } } : {}) };
+}
+
+describe('discoverTopology', () => {
+  it('follows the cursor of installations, gateways and devices', async () => {
+    const calls: string[] = [];
+    const client = {
+      getInstallations: async (_includeGateways: boolean, cursor?: string) => {
+        calls.push(`installations ${cursor ?? ''}`);
+        return paged([installation(1), installation(2), installation(3, [gateway('embedded', [device('0')])])], 2, cursor);
+      },
+      getGateways: async (installationId: number, _includeDevices: boolean, cursor?: string) => {
+        calls.push(`gateways ${installationId} ${cursor ?? ''}`);
+        return paged([gateway(`${installationId}-a`), gateway(`${installationId}-b`, [device('0')])], 1, cursor);
+      },
+      getDevices: async (_installationId: number, serial: string, cursor?: string) => {
+        calls.push(`devices ${serial} ${cursor ?? ''}`);
+        return paged([device('0'), device('1', 'Offline'), device('2')], 2, cursor);
+      }
+    } as unknown as ViessmannClient;
+
+    const installations = await discoverTopology(client);
+
+    assert.deepEqual(installations.map(node => node.id), [1, 2, 3]);
+    assert.deepEqual(installations[0].gateways.map(node => node.serial), ['1-a', '1-b']);
+    assert.deepEqual(installations[0].getGateway('1-a')?.devices.map(node => node.id), ['0', '1', '2']);
+    assert.equal(installations[0].getGateway('1-a')?.getDevice('1')?.isOnline, false);
+    assert.deepEqual(installations[2].devices.map(node => `${node.gateway.serial}/${node.id}`), ['embedded/0']);
+    assert.deepEqual(calls, [
+      'installations ', 'installations 2',
+      'gateways 1 ', 'gateways 1 1', 'devices 1-a ', 'devices 1-a 2',
+      'gateways 2 ', 'gateways 2 1', 'devices 2-a ', 'devices 2-a 2'
+    ]);
+  });
+
+  it('stops when the API repeats a cursor', async () => {
+    let calls = 0;
+    const client = {
+      getInstallations: async () => {
+        calls++;
+        return { data: [installation(calls, [])], cursor: { next: 'same' } };
+      }
+    } as unknown as ViessmannClient;
+
+    assert.equal((await discoverTopology(client)).length, 2);
+  });
+});
@@ -0,0 +1,144 @@
+import { afterEach, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import type { ViessmannClient } from '../src/client';
+import { FeatureChange, FeatureWatcher, WatchTarget } from '../src/watcher';
+import { DeviceOfflineError } from '../src/errors';
+import { QuotaSnapshot } from '../src/scheduler';
+import { Feature } from '../src/types';
+import { deferred, Deferred, feature, flush } from './helpers';
+
+/**
+ * Client stub whose feature responses are handed out one call at a time
+ */
+function stubClient(quota: QuotaSnapshot | null = null) {
+  const responses: Array<Feature[] | Error | Deferred<Feature[]>> = [];
+  let calls = 0;
+  const client = {
+    getQuota: () => quota,
+    getDeviceFeatures: async () => {
+      calls++;
+      const next = responses.shift() ?? [];
+      if (next instanceof Error) throw next;
+      return { data: Array.isArray(next) ? next : await next.promise };
+    }
+  } as unknown as ViessmannClient;
+  return { client, responses, calls: () => calls };
+}
+
+function watch(client: ViessmannClient, interval = 1000): FeatureWatcher {
+  return new FeatureWatcher(client, { interval, log: () => undefined }).addDevice(123456, '7633107093013212', '0');
+}
+
+describe('FeatureWatcher', () => {
+  afterEach(() => mock.timers.reset());
+
+  it('records a baseline, then emits changes and enabled/disabled features', async () => {
+    const stub = stubClient();
+    const watcher = watch(stub.client);
+    const changes: FeatureChange[] = [];
+    const disabled: string[] = [];
+    watcher.on('change', change => changes.push(change));
+    watcher.on('disabled', event => disabled.push(event.feature));
+
+    stub.responses.push(
+      [feature('heating.dhw.temperature.main', { value: 50 }), feature('heating.dhw.oneTimeCharge', { active: false })],
+      [feature('heating.dhw.temperature.main', { value: 48 })]
+    );
+    await watcher.poll();
+    assert.equal(changes.length, 0);
+
+    await watcher.poll();
+    assert.deepEqual(changes.map(change => [change.feature, change.properties]), [
+      ['heating.dhw.temperature.main', [{ name: 'value', previous: 50, current: 48 }]]
+    ]);
+    assert.deepEqual(disabled, ['heating.dhw.oneTimeCharge']);
+  });
+
+  it('reports an offline device once until it is reachable again', async () => {
+    const stub = stubClient();
+    const watcher = watch(stub.client);
+    const offline: WatchTarget[] = [];
+    watcher.on('deviceOffline', target => offline.push(target));
+
+    stub.responses.push(new DeviceOfflineError('offline'), new DeviceOfflineError('offline'), [], new DeviceOfflineError('offline'));
+    for (let i = 0; i < 4; i++) await watcher.poll();
+    assert.equal(offline.length, 2);
+  });
+
+  it('logs errors nobody listens to instead of dropping them', async () => {
+    const stub = stubClient();
+    const messages: string[] = [];
+    const watcher = new FeatureWatcher(stub.client, { log: message => messages.push(message) }).addInstallation(1);
+    (stub.client as unknown as Record<string, unknown>).getInstallationFeatures = async () => {
+      throw new Error('boom');
+    };
+
+    await watcher.poll();
+    assert.equal(messages.length, 1);
+    assert.match(messages[0], /boom/);
+
+    const errors: Error[] = [];
+    watcher.on('error', error => errors.push(error));
+    await watcher.poll();
+    assert.equal(errors.length, 1);
+    assert.equal(messages.length, 1);
+  });
+
+  it('raises the interval to stay within the quota share', () => {
+    const stub = stubClient({ windows: [{ name: '10min', limit: 120, windowMs: 10 * 60 * 1000, used: 0, remaining: 120 }], queued: 0 } as QuotaSnapshot);
+    assert.equal(watch(stub.client, 1000).effectiveInterval, 10 * 1000);
+  });
+
+  it('waits until a 429 block ends before polling again', async () => {
+    mock.timers.enable({ apis: ['setTimeout'] });
+    const quota: QuotaSnapshot = { windows: [], blockedUntil: Date.now() + 60 * 1000, queued: 0 };
+    const stub = stubClient(quota);
+    const watcher = watch(stub.client, 1000).start();
+
+    mock.timers.tick(0);
+    await flush();
+    assert.equal(stub.calls(), 1);
+
+    mock.timers.tick(30 * 1000);
+    await flush();
+    assert.equal(stub.calls(), 1);
+
+    mock.timers.tick(30 * 1000);
+    await flush();
+    assert.equal(stub.calls(), 2);
+    watcher.stop();
+  });
+
+  it('runs a single poll loop after stop() and start() during a poll', async () => {
+    mock.timers.enable({ apis: ['setTimeout'] });
+    const stub = stubClient();
+    const firstPoll = deferred<Feature[]>();
+    stub.responses.push(firstPoll);
+    const watcher = watch(stub.client, 1000).start();
+
+    mock.timers.tick(0);
+    await flush();
+    assert.equal(stub.calls(), 1);
+
+    watcher.stop();
+    watcher.start();
+    mock.timers.tick(0);
+    await flush();
+    // The restarted loop waits for the poll in flight
+    assert.equal(stub.calls(), 1);
+
+    firstPoll.resolve([]);
+    await flush();
+    assert.equal(stub.calls(), 2);
+
+    for (let i = 3; i <= 5; i++) {
+      mock.timers.tick(1000);
+      await flush();
+      assert.equal(stub.calls(), i);
+    }
+    watcher.stop();
+    mock.timers.tick(1000);
+    await flush();
+    assert.equal(stub.calls(), 5);
+  });
+});